@@ -0,0 +1,263 @@
+import { readFileSync } from "node:fs"
+import { z } from "zod"
+import type { Keypair } from "@mysten/sui/cryptography"
+import { FortemClient, type RequestOptions } from "./client.js"
+import { loginWithKeypair, createKeypairSigner } from "./auth.js"
+import { hasKeySource, keySourceFromEnv, type KeySource } from "./keystore.js"
+import type { Signer, SigningContext } from "./signer.js"
+import { decodeTokenExpiry, forgetCachedToken, loadCachedToken, saveCachedToken } from "./token.js"
+import { TransactionRunner } from "./transaction.js"
+import { PolicySigner, type SigningPolicy, type SpendLedger } from "./policy.js"
+import { VerifyingSigner, type FortemPackages } from "./verify.js"
+import { apiKeyResponseSchema } from "./schemas.js"
+import { AuditJournal, auditLogPath } from "./audit.js"
+import { PendingStore, pendingDir } from "./pending.js"
+import { TransactionQueue } from "./queue.js"
+
+export interface AccountOptions {
+  apiUrl: string
+  network: string
+  keySource: KeySource
+  policy: SigningPolicy
+  // Shared by every account on the network so the daily budget is one limit
+  spendLedger: SpendLedger
+  fortemPackages: FortemPackages
+  // Persist the JWT under the data dir so restarts skip the login
+  tokenCache: boolean
+  // Timeouts and retry limits for Fortem API calls
+  requestOptions?: Partial<RequestOptions>
+  // Transactions this wallet prepares, signs and executes at once (default 1)
+  transactionConcurrency?: number
+}
+
+// Refresh this long before the JWT expires so requests never carry a stale token
+const TOKEN_REFRESH_MARGIN_MS = 60_000
+
+// Everything tied to one wallet: its HTTP client, signer chain and lazy login state
+export interface Account {
+  client: FortemClient
+  // Raw lazy signer; use for the wallet address
+  signer: Signer
+  // Signs through local verification and the signing policy
+  transactions: TransactionRunner
+  getDeveloperApiKey(): Promise<string>
+  // Replaces the cached key, e.g. after get_my_api_key regenerated it
+  setDeveloperApiKey(apiKey: string): void
+  isAuthenticated(): boolean
+}
+
+export function createAccount(options: AccountOptions): Account {
+  const { keySource, network } = options
+
+  // ── Lazy auth state ───────────────────────────────
+  let _key: { keypair: Keypair; signer: Signer } | null = null
+  let _token: string | null = null
+  let _refreshPromise: Promise<void> | null = null
+  let _developerApiKey: string | null = null
+  let _apiKeyPromise: Promise<string> | null = null
+
+  // The key is only needed for the address and signatures, never for a login
+  function loadKey(): { keypair: Keypair; signer: Signer } {
+    if (_key) return _key
+    if (!hasKeySource(keySource)) {
+      throw new Error(
+        "A wallet key is required.\n\n" +
+        "  Set SUI_PRIVATE_KEY=suiprivkey1... (Ed25519, Secp256k1 or Secp256r1) to authenticate,\n" +
+        "  or SUI_KEY_ALIAS=<alias|address|active> to use a key from your Sui CLI keystore.\n\n" +
+        "  Export your private key from Sui Wallet → Settings → Accounts → Export Private Key."
+      )
+    }
+    _key = createKeypairSigner(keySource)
+    return _key
+  }
+
+  function isFresh(token: string | null): boolean {
+    if (token === null) return false
+    const expiresAt = decodeTokenExpiry(token)
+    return expiresAt === undefined || expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS
+  }
+
+  function useToken(token: string): void {
+    _token = token
+    client.setToken(token)
+  }
+
+  // Single flight: concurrent requests (and concurrent 401s) share one refresh
+  async function ensureToken(rejectedToken?: string | null): Promise<void> {
+    if (isFresh(_token) && _token !== rejectedToken) return
+    _refreshPromise ??= refreshToken(rejectedToken).finally(() => { _refreshPromise = null })
+    return _refreshPromise
+  }
+
+  async function refreshToken(rejectedToken?: string | null): Promise<void> {
+    const { keypair } = loadKey()
+    const address = keypair.toSuiAddress()
+    if (rejectedToken) process.stderr.write("[fortem-mcp] Token rejected, refreshing...\n")
+
+    // Another process (or an earlier run) may already hold a valid token
+    if (options.tokenCache) {
+      if (rejectedToken) await forgetCachedToken(network, address, rejectedToken).catch(warnTokenCache)
+      const cached = await loadCachedToken(network, address)
+      if (cached && cached !== rejectedToken && isFresh(cached)) {
+        useToken(cached)
+        process.stderr.write(`[fortem-mcp] Using cached session for ${address}\n`)
+        return
+      }
+    }
+
+    process.stderr.write(`[fortem-mcp] Wallet address: ${address}\n`)
+    process.stderr.write("[fortem-mcp] Logging in...\n")
+    const token = await loginWithKeypair(authClient, keypair)
+    useToken(token)
+    process.stderr.write(`[fortem-mcp] Login successful (${keypair.getKeyScheme()})\n`)
+
+    if (options.tokenCache) await saveCachedToken(network, address, token).catch(warnTokenCache)
+  }
+
+  // The cache only saves logins; an unwritable data dir must not fail the request
+  function warnTokenCache(err: unknown): void {
+    process.stderr.write(`[fortem-mcp] Could not update the token cache: ${(err as Error).message}\n`)
+  }
+
+  // ── HTTP clients ──────────────────────────────────
+  // Login requests must not wait on the token they are fetching
+  const authClient = new FortemClient(options.apiUrl, async () => {}, undefined, options.requestOptions)
+
+  // A 401 only refreshes the token; the developer API key is kept
+  const client = new FortemClient(
+    options.apiUrl,
+    (rejectedToken) => ensureToken(rejectedToken),
+    () => ensureToken(),
+    options.requestOptions
+  )
+
+  // ── Lazy signer proxy ─────────────────────────────
+  const lazySigner: Signer = {
+    getAddress(): string {
+      return loadKey().signer.getAddress()
+    },
+    async signTransaction(txBytes: string, context?: SigningContext): Promise<string> {
+      return loadKey().signer.signTransaction(txBytes, context)
+    },
+    async signPersonalMessage(messageBytes: Uint8Array): Promise<{ bytes: string; signature: string }> {
+      return loadKey().signer.signPersonalMessage(messageBytes)
+    },
+  }
+
+  // ── Signing policy + local transaction verification ──
+  const verifyingSigner = new VerifyingSigner(lazySigner, options.fortemPackages)
+  const policySigner = new PolicySigner(verifyingSigner, options.policy, options.network, options.spendLedger)
+
+  return {
+    client,
+    signer: lazySigner,
+    transactions: new TransactionRunner(
+      client,
+      policySigner,
+      new AuditJournal(auditLogPath(), network),
+      new PendingStore(() => pendingDir(network, lazySigner.getAddress())),
+      new TransactionQueue(options.transactionConcurrency)
+    ),
+    // Fetched once on first use; token refreshes never refetch it
+    async getDeveloperApiKey(): Promise<string> {
+      if (_developerApiKey) return _developerApiKey
+      const request: Promise<string> = _apiKeyPromise ??= client
+        .get("/api/v1/users/settings/developers/api-key", apiKeyResponseSchema)
+        // A key regenerated meanwhile wins over the one this request read
+        .then(({ apiKey }) => (_apiKeyPromise === request ? (_developerApiKey = apiKey) : apiKey))
+        .finally(() => { if (_apiKeyPromise === request) _apiKeyPromise = null })
+      return request
+    },
+    setDeveloperApiKey(apiKey: string): void {
+      _developerApiKey = apiKey
+      _apiKeyPromise = null
+    },
+    isAuthenticated: () => _token !== null,
+  }
+}
+
+// Optional `account` parameter shared by every tool that acts as a wallet
+export const accountParam = z
+  .string()
+  .optional()
+  .describe("Named account to act as (default: the active account; see list_accounts)")
+
+export const DEFAULT_ACCOUNT_NAME = "default"
+
+/**
+ * Reads the named key sources: FORTEM_ACCOUNTS_FILE (JSON object of
+ * name → { privateKey | keyAlias, keystorePath?, clientConfigPath? }) plus
+ * SUI_PRIVATE_KEY / SUI_KEY_ALIAS as the "default" account.
+ */
+export function loadAccountKeySources(env: NodeJS.ProcessEnv): Map<string, KeySource> {
+  const sources = new Map<string, KeySource>()
+
+  const envSource = keySourceFromEnv(env)
+  if (hasKeySource(envSource)) sources.set(DEFAULT_ACCOUNT_NAME, envSource)
+
+  if (env.FORTEM_ACCOUNTS_FILE) {
+    let parsed: Record<string, KeySource>
+    try {
+      parsed = JSON.parse(readFileSync(env.FORTEM_ACCOUNTS_FILE, "utf8")) as Record<string, KeySource>
+    } catch (err) {
+      throw new Error(`Could not read FORTEM_ACCOUNTS_FILE (${env.FORTEM_ACCOUNTS_FILE}): ${(err as Error).message}`)
+    }
+    for (const [name, source] of Object.entries(parsed)) {
+      if (!hasKeySource(source)) {
+        throw new Error(`Account "${name}" in FORTEM_ACCOUNTS_FILE needs a privateKey or keyAlias`)
+      }
+      sources.set(name, source)
+    }
+  }
+
+  // No key configured at all: keep one account so the error surfaces on first use
+  if (sources.size === 0) sources.set(DEFAULT_ACCOUNT_NAME, envSource)
+  return sources
+}
+
+/**
+ * Named accounts plus which one is active. Accounts (and their logins) can be
+ * shared between MCP sessions; each session forks its own active selection.
+ */
+export class AccountRegistry {
+  private activeName: string
+
+  constructor(private readonly accounts: Map<string, Account>, active?: string) {
+    const first = accounts.keys().next().value
+    if (first === undefined) throw new Error("At least one account is required")
+    this.activeName = active ?? first
+    this.get(this.activeName)
+  }
+
+  get active(): string {
+    return this.activeName
+  }
+
+  names(): string[] {
+    return [...this.accounts.keys()]
+  }
+
+  /** Resolves a named account, or the active one when no name is given. */
+  get(name?: string): Account {
+    const key = name ?? this.activeName
+    const account = this.accounts.get(key)
+    if (!account) {
+      throw new Error(`Unknown account "${key}". Configured accounts: ${this.names().join(", ")}`)
+    }
+    return account
+  }
+
+  switchTo(name: string): Account {
+    const account = this.get(name)
+    this.activeName = name
+    return account
+  }
+
+  entries(): Array<[string, Account]> {
+    return [...this.accounts.entries()]
+  }
+
+  fork(): AccountRegistry {
+    return new AccountRegistry(this.accounts, this.activeName)
+  }
+}
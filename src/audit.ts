@@ -0,0 +1,162 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { z } from "zod"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import { getDataDir } from "./paths.js"
+
+// previewed: held for confirm_transaction; prepared: about to be signed
+export const auditEventSchema = z.enum(["previewed", "prepared", "signed", "executed", "failed"])
+export type AuditEvent = z.infer<typeof auditEventSchema>
+
+export interface AuditEntry {
+  at: string
+  event: AuditEvent
+  network: string
+  tool: string
+  txId: string
+  cost: string
+  costTokenSymbol: string
+  gasBudget: number
+  signer?: string
+  params?: Record<string, unknown>
+  // IDs from the execute result (itemId, objectId, ...)
+  result?: Record<string, unknown>
+  error?: string
+}
+
+// One transaction, folded from all of its journal entries
+export const transactionRecordSchema = z.object({
+  txId: z.string(),
+  tool: z.string(),
+  network: z.string(),
+  // The latest event
+  status: auditEventSchema,
+  signer: z.string().optional(),
+  params: z.record(z.unknown()).optional(),
+  cost: z.string(),
+  costTokenSymbol: z.string(),
+  gasBudget: z.number(),
+  startedAt: z.string(),
+  signedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  result: z.record(z.unknown()).optional(),
+  error: z.string().optional(),
+})
+export type TransactionRecord = z.infer<typeof transactionRecordSchema>
+
+export interface HistoryQuery {
+  tool?: string
+  network?: string
+  // Only transactions from these signer addresses
+  signers?: string[]
+  status?: AuditEvent
+  // ISO dates or timestamps, compared with startedAt; a bare date in `to` includes that whole day
+  from?: string
+  to?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SECRET_KEY = /redeemCode|privateKey|secret|password|apiKey|token|signature/i
+const MAX_STRING_LENGTH = 200
+
+export function auditLogPath(): string {
+  return process.env.FORTEM_AUDIT_LOG ?? join(getDataDir(), "audit.jsonl")
+}
+
+/** Copies tool params for the journal: secrets are redacted and long strings cut short. */
+export function sanitizeParams(value: unknown, key = ""): unknown {
+  if (SECRET_KEY.test(key) && value !== undefined) return "[redacted]"
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+  }
+  if (Array.isArray(value)) return value.map((entry) => sanitizeParams(entry))
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([name, entry]) => [name, sanitizeParams(entry, name)])
+    )
+  }
+  return value
+}
+
+// Result IDs worth keeping: itemId, collectionId, kioskItemId, objectId, ...
+export function pickResultIds(result: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(result).filter(
+      ([name, value]) => /Id$/.test(name) && (typeof value === "number" || typeof value === "string")
+    )
+  )
+}
+
+/** Append-only JSONL journal of every transaction the server previews, signs and executes. */
+export class AuditJournal {
+  constructor(
+    readonly path: string,
+    private readonly network: string
+  ) {}
+
+  async record(entry: Omit<AuditEntry, "at" | "network">): Promise<void> {
+    const full: AuditEntry = { at: new Date().toISOString(), network: this.network, ...entry }
+    await mkdir(dirname(this.path), { recursive: true })
+    await appendFile(this.path, JSON.stringify(full) + "\n")
+  }
+}
+
+/** Replays the journal into one record per txId, newest first, filtered by `query`. */
+export async function readTransactionHistory(path: string, query: HistoryQuery = {}): Promise<TransactionRecord[]> {
+  let text: string
+  try {
+    text = await readFile(path, "utf8")
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw err
+  }
+
+  const records = new Map<string, TransactionRecord>()
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue
+    let entry: AuditEntry
+    try {
+      entry = JSON.parse(line) as AuditEntry
+    } catch {
+      // A line cut short by a crash; the rest of the journal is still usable
+      continue
+    }
+
+    const record = records.get(entry.txId) ?? {
+      txId: entry.txId,
+      tool: entry.tool,
+      network: entry.network,
+      status: entry.event,
+      cost: entry.cost,
+      costTokenSymbol: entry.costTokenSymbol,
+      gasBudget: entry.gasBudget,
+      startedAt: entry.at,
+    }
+    record.status = entry.event
+    record.signer = entry.signer ?? record.signer
+    record.params = entry.params ?? record.params
+    if (entry.event === "signed") record.signedAt = entry.at
+    if (entry.event === "executed" || entry.event === "failed") record.finishedAt = entry.at
+    if (entry.result) record.result = entry.result
+    if (entry.error) record.error = entry.error
+    records.set(entry.txId, record)
+  }
+
+  const from = query.from ? Date.parse(query.from) : undefined
+  const to = query.to ? Date.parse(query.to) + (/^\d{4}-\d{2}-\d{2}$/.test(query.to) ? DAY_MS - 1 : 0) : undefined
+  const signers = query.signers?.map((address) => normalizeSuiAddress(address))
+  return [...records.values()]
+    .filter((record) => {
+      const startedAt = Date.parse(record.startedAt)
+      if (signers && !(record.signer && signers.includes(normalizeSuiAddress(record.signer)))) return false
+      if (query.tool && record.tool !== query.tool) return false
+      if (query.network && record.network !== query.network) return false
+      if (query.status && record.status !== query.status) return false
+      if (from !== undefined && startedAt < from) return false
+      if (to !== undefined && startedAt > to) return false
+      return true
+    })
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+}
@@ -1,44 +1,33 @@
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519"
+import type { Keypair } from "@mysten/sui/cryptography"
 import type { FortemClient } from "./client.js"
-import { Ed25519Signer } from "./signer.js"
-
-interface CheckWalletResponse {
-  exists: boolean
-  walletAddress: string
-}
-
-interface NonceResponse {
-  nonce: string
-}
-
-interface LoginResponse {
-  accessToken: string
-  nickname: string
-  profileImage: string
-}
+import { KeypairSigner } from "./signer.js"
+import { loadKeypair, type KeySource } from "./keystore.js"
+import { ToolError } from "./errors.js"
+import { checkWalletResponseSchema, loginResponseSchema, nonceResponseSchema } from "./schemas.js"
 
 function buildLoginMessage(address: string, nonce: string, timestamp: number): string {
   return `{"message": "Sui Login for ${address}", "timestamp": ${timestamp}, "nonce": "${nonce}"}`
 }
 
-export async function loginWithEd25519(
+// Personal-message signatures carry the scheme flag, so the same flow works for every key scheme
+export async function loginWithKeypair(
   client: FortemClient,
-  keypair: Ed25519Keypair
+  keypair: Keypair
 ): Promise<string> {
   const address = keypair.getPublicKey().toSuiAddress()
 
   // 1. Check membership
-  const { exists } = await client.post<CheckWalletResponse>("/api/v1/auth/check-wallet", {
+  const { exists } = await client.post("/api/v1/auth/check-wallet", {
     walletAddress: address,
-  })
+  }, checkWalletResponseSchema)
   if (!exists) {
-    throw new Error(`Address ${address} is not a registered Fortem member. Please sign up at https://fortem.gg first.`)
+    throw new ToolError("NOT_A_MEMBER", `Address ${address} is not a registered Fortem member. Please sign up at https://fortem.gg first.`)
   }
 
   // 2. Request nonce
-  const { nonce } = await client.post<NonceResponse>("/api/v1/auth/nonce", {
+  const { nonce } = await client.post("/api/v1/auth/nonce", {
     walletAddress: address,
-  })
+  }, nonceResponseSchema)
 
   // 3. Sign message
   const timestamp = Date.now()
@@ -47,19 +36,19 @@ export async function loginWithEd25519(
   const { bytes, signature } = await keypair.signPersonalMessage(messageBytes)
 
   // 4. Login
-  const { accessToken } = await client.post<LoginResponse>("/api/v1/auth/login", {
+  const { accessToken } = await client.post("/api/v1/auth/login", {
     walletAddress: address,
     provider: "WALLET",
     signature,
     timestamp,
     nonce,
     bytes,
-  })
+  }, loginResponseSchema)
 
   return accessToken
 }
 
-export function createEd25519Signer(privateKey: string): { keypair: Ed25519Keypair; signer: Ed25519Signer } {
-  const keypair = Ed25519Keypair.fromSecretKey(privateKey)
-  return { keypair, signer: new Ed25519Signer(keypair) }
+export function createKeypairSigner(source: KeySource): { keypair: Keypair; signer: KeypairSigner } {
+  const keypair = loadKeypair(source)
+  return { keypair, signer: new KeypairSigner(keypair) }
 }
@@ -1,43 +1,168 @@
-import type { ApiResponse } from "./types.js"
+import { z } from "zod"
+import type { ApiResponse, Page } from "./types.js"
+import { FortemApiError, ToolError } from "./errors.js"
+
+// Page size used when walking every page of a list endpoint
+const MAX_PAGE_SIZE = 100
+
+// Statuses worth retrying for idempotent requests
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504]
+
+export interface RequestOptions {
+  // Per-attempt timeout, covering the response body as well
+  timeoutMs: number
+  // Extra attempts after the first one
+  maxRetries: number
+  // Backoff before retry n is a random delay in [0, min(maxDelayMs, baseDelayMs * 2^n)]
+  baseDelayMs: number
+  maxDelayMs: number
+  // A Retry-After longer than this is not waited for
+  maxRetryAfterMs: number
+}
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  timeoutMs: 30_000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 60_000,
+}
+
+interface RawResponse {
+  status: number
+  headers: Headers
+  text: string
+}
+
+// A response schema: parses the API's JSON into T
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>
+
+/**
+ * Checks response data against its schema, so API drift fails with the
+ * offending fields named instead of surfacing later as undefined values.
+ */
+export function parseResponse<T>(schema: ResponseSchema<T> | undefined, data: unknown, path: string): T {
+  if (!schema) return data as T
+  const parsed = schema.safeParse(data)
+  if (parsed.success) return parsed.data
+
+  const issues = parsed.error.issues
+  const details = issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ")
+  const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : ""
+  throw new ToolError("UNEXPECTED_RESPONSE", `Unexpected response from ${path.split("?")[0]}: ${details}${more}`)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
 
 export class FortemClient {
   private accessToken: string | null = null
+  private readonly requestOptions: RequestOptions
 
   constructor(
-    private readonly apiUrl: string,
-    private readonly onUnauthorized: () => Promise<void>,
-    private readonly onBeforeRequest?: () => Promise<void>
-  ) {}
+    readonly apiUrl: string,
+    // Called with the token the server rejected (null if none was sent)
+    private readonly onUnauthorized: (rejectedToken: string | null) => Promise<void>,
+    private readonly onBeforeRequest?: () => Promise<void>,
+    requestOptions: Partial<RequestOptions> = {}
+  ) {
+    this.requestOptions = { ...DEFAULT_REQUEST_OPTIONS, ...requestOptions }
+    const { timeoutMs, maxRetries } = this.requestOptions
+    if (!Number.isInteger(timeoutMs) || timeoutMs < 1) {
+      throw new Error(`API timeout (FORTEM_API_TIMEOUT_MS) must be a positive integer of milliseconds, got: ${timeoutMs}`)
+    }
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error(`API max retries (FORTEM_API_MAX_RETRIES) must be a non-negative integer, got: ${maxRetries}`)
+    }
+  }
 
   setToken(token: string): void {
     this.accessToken = token
   }
 
-  async get<T>(path: string): Promise<T> {
-    return this.request<T>(path, { method: "GET" })
+  async get<T>(path: string, schema?: ResponseSchema<T>): Promise<T> {
+    const json = await this.request<T>(path, { method: "GET" })
+    return parseResponse(schema, json.data, path)
   }
 
-  async post<T>(path: string, body: unknown): Promise<T> {
-    return this.request<T>(path, {
+  // Fetches one page of a list endpoint; params must include skip and take
+  async getPage<T>(path: string, params: URLSearchParams, schema?: ResponseSchema<T>): Promise<Page<T>> {
+    const json = await this.request<T[]>(`${path}?${params}`, { method: "GET" })
+    const data = parseResponse(schema && z.array(schema), json.data, path)
+    const skip = Number(params.get("skip") ?? 0)
+    const take = Number(params.get("take") ?? data.length)
+    const totalItems = json.metadata?.pagination?.totalItems
+    const fetched = skip + data.length
+
+    const hasMore = totalItems !== undefined
+      ? fetched < totalItems
+      : data.length === take && take > 0
+
+    return { data, totalItems, nextSkip: hasMore ? fetched : null }
+  }
+
+  // Walks pages from skip=0 until the end or maxItems, whichever comes first
+  async getAllPages<T>(
+    path: string,
+    params: URLSearchParams,
+    maxItems: number,
+    schema?: ResponseSchema<T>
+  ): Promise<Page<T> & { truncated: boolean }> {
+    const data: T[] = []
+    let totalItems: number | undefined
+    let skip: number | null = 0
+
+    while (skip !== null && data.length < maxItems) {
+      const pageParams = new URLSearchParams(params)
+      pageParams.set("skip", String(skip))
+      pageParams.set("take", String(Math.min(MAX_PAGE_SIZE, maxItems - data.length)))
+
+      const page: Page<T> = await this.getPage(path, pageParams, schema)
+      data.push(...page.data)
+      totalItems = page.totalItems ?? totalItems
+      skip = page.data.length > 0 ? page.nextSkip : null
+    }
+
+    return { data, totalItems, nextSkip: skip, truncated: skip !== null }
+  }
+
+  async post<T>(path: string, body: unknown, schema?: ResponseSchema<T>): Promise<T> {
+    const json = await this.request<T>(path, {
       method: "POST",
       body: JSON.stringify(body),
     })
+    return parseResponse(schema, json.data, path)
   }
 
-  async put<T>(path: string, body: unknown): Promise<T> {
-    return this.request<T>(path, {
+  async put<T>(path: string, body: unknown, schema?: ResponseSchema<T>): Promise<T> {
+    const json = await this.request<T>(path, {
       method: "PUT",
       body: JSON.stringify(body),
     })
+    return parseResponse(schema, json.data, path)
   }
 
-  async uploadFile<T>(path: string, formData: FormData): Promise<T> {
+  async uploadFile<T>(path: string, formData: FormData, schema?: ResponseSchema<T>): Promise<T> {
     // Do NOT set Content-Type — let fetch set it with the correct multipart boundary
-    return this.request<T>(path, {
+    const json = await this.request<T>(path, {
       method: "PUT",
       body: formData,
       headers: {},
     }, true, true)
+    return parseResponse(schema, json.data, path)
   }
 
   private async request<T>(
@@ -45,7 +170,7 @@ export class FortemClient {
     options: RequestInit,
     retry = true,
     isMultipart = false
-  ): Promise<T> {
+  ): Promise<ApiResponse<T>> {
     if (retry) await this.onBeforeRequest?.()
 
     const headers: Record<string, string> = {}
@@ -54,11 +179,12 @@ export class FortemClient {
       headers["Content-Type"] = "application/json"
     }
 
-    if (this.accessToken) {
-      headers["Authorization"] = `Bearer ${this.accessToken}`
+    const token = this.accessToken
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`
     }
 
-    const res = await fetch(`${this.apiUrl}${path}`, {
+    const res = await this.send(path, {
       ...options,
       headers: {
         ...headers,
@@ -67,16 +193,95 @@ export class FortemClient {
     })
 
     if (res.status === 401 && retry) {
-      await this.onUnauthorized()
+      await this.onUnauthorized(token)
       return this.request<T>(path, options, false, isMultipart)
     }
 
-    if (!res.ok) {
-      const errorText = await res.text()
-      throw new Error(`Fortem API Error ${res.status}: ${errorText}`)
+    if (res.status < 200 || res.status >= 300) {
+      throw FortemApiError.fromResponse(res.status, path, res.text)
     }
 
-    const json = (await res.json()) as ApiResponse<T>
-    return json.data
+    return JSON.parse(res.text) as ApiResponse<T>
+  }
+
+  /**
+   * Sends one request with a timeout per attempt. GETs are retried with
+   * exponential backoff on network errors, timeouts and 408/429/5xx; other
+   * methods only on 429, which the server refuses before doing any work.
+   * `/execute` calls are never retried: a signed transaction that may have
+   * reached the chain must not be submitted twice.
+   */
+  private async send(path: string, init: RequestInit): Promise<RawResponse> {
+    const method = init.method ?? "GET"
+    const isExecute = path.split("?")[0].endsWith("/execute")
+    const { maxRetries } = this.requestOptions
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = !isExecute && attempt < maxRetries
+
+      let res: RawResponse
+      try {
+        res = await this.fetchWithTimeout(path, init)
+      } catch (err) {
+        if (isExecute) {
+          throw new ToolError(
+            "OUTCOME_UNKNOWN",
+            `${method} ${path} failed before a response arrived (${(err as Error).message}). ` +
+            "The signed transaction may or may not have been submitted."
+          )
+        }
+        if (method !== "GET" || !canRetry) throw err
+        await this.backoff(method, path, (err as Error).message, attempt, undefined)
+        continue
+      }
+
+      const retryable = method === "GET" ? RETRYABLE_STATUSES.includes(res.status) : res.status === 429
+      if (!retryable || !canRetry) {
+        if (isExecute && res.status === 429) {
+          throw new FortemApiError(
+            429,
+            `rate limited on ${path}. The transaction was not submitted; try again later.`,
+            undefined,
+            [],
+            path
+          )
+        }
+        return res
+      }
+
+      const retryAfter = parseRetryAfter(res.headers.get("retry-after"))
+      if (retryAfter !== undefined && retryAfter > this.requestOptions.maxRetryAfterMs) return res
+      await this.backoff(method, path, `HTTP ${res.status}`, attempt, retryAfter)
+    }
+  }
+
+  private async backoff(
+    method: string,
+    path: string,
+    reason: string,
+    attempt: number,
+    retryAfter: number | undefined
+  ): Promise<void> {
+    const { baseDelayMs, maxDelayMs, maxRetries } = this.requestOptions
+    const delay = retryAfter ?? Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt))
+    process.stderr.write(
+      `[fortem-mcp] ${method} ${path} failed (${reason}), retrying in ${delay}ms (${attempt + 1}/${maxRetries})\n`
+    )
+    await sleep(delay)
+  }
+
+  private async fetchWithTimeout(path: string, init: RequestInit): Promise<RawResponse> {
+    const { timeoutMs } = this.requestOptions
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    try {
+      const res = await fetch(`${this.apiUrl}${path}`, { ...init, signal: controller.signal })
+      return { status: res.status, headers: res.headers, text: await res.text() }
+    } catch (err) {
+      if (controller.signal.aborted) throw new Error(`Request timed out after ${timeoutMs}ms`)
+      throw err
+    } finally {
+      clearTimeout(timer)
+    }
   }
 }
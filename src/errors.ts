@@ -0,0 +1,181 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { PolicyViolationError } from "./policy.js"
+import { TransactionVerificationError } from "./verify.js"
+
+export type ErrorCode =
+  | "KIOSK_MISSING"
+  | "NOT_A_MEMBER"
+  | "ITEM_NOT_OWNED"
+  | "ITEM_ALREADY_OWNED"
+  | "ITEM_NOT_LISTED"
+  | "TRADING_DISABLED"
+  | "ITEM_BUSY"
+  | "ALREADY_REDEEMED"
+  | "PRICE_CHANGED"
+  | "PRICE_ABOVE_LIMIT"
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "RATE_LIMITED"
+  | "SERVER_ERROR"
+  | "API_ERROR"
+  | "OUTCOME_UNKNOWN"
+  | "UNEXPECTED_RESPONSE"
+  | "POLICY_VIOLATION"
+  | "VERIFICATION_FAILED"
+  | "TOOL_ERROR"
+
+const HINTS: Partial<Record<ErrorCode, string>> = {
+  KIOSK_MISSING: "Run ensure_kiosk to create a kiosk, then try again.",
+  NOT_A_MEMBER: "The wallet must be registered first: sign up at https://fortem.gg (testnet: https://testnet.fortem.gg).",
+  ITEM_NOT_OWNED: "This wallet does not own the item. Check get_my_items, or use switch_account if another account owns it.",
+  ITEM_ALREADY_OWNED: "This wallet already owns the item. Use unlist_item to take it off sale instead.",
+  ITEM_NOT_LISTED: "The item is not for sale. Check its status with get_item_detail; list your own items with list_item.",
+  TRADING_DISABLED: "Nothing was signed. The owner listed this item for sale only; buy it with buy_item or pick a listing that accepts swap offers.",
+  ITEM_BUSY: "The item is listed or part of a pending offer. Run unlist_item, or resolve the offer with get_my_offers and cancel_offer, then try again.",
+  ALREADY_REDEEMED: "Nothing to do: the item is already redeemed. Check codes with check_redeem_code.",
+  PRICE_CHANGED: "Nothing was signed. Check the current price with get_item_detail and run the tool again if it is still acceptable.",
+  PRICE_ABOVE_LIMIT: "Nothing was signed. Raise maxPrice if the price is acceptable, or pick another item.",
+  VALIDATION_ERROR: "Fix the invalid parameters (see message and fieldErrors) and try again.",
+  UNAUTHORIZED: "The session could not be refreshed. Check the wallet key and that the wallet is a Fortem member.",
+  FORBIDDEN: "This account is not allowed to perform the action.",
+  NOT_FOUND: "Check the ID; it may not exist on this network.",
+  RATE_LIMITED: "The Fortem API is rate limiting requests. Wait a moment and try again.",
+  SERVER_ERROR: "The Fortem API failed. Try again later.",
+  OUTCOME_UNKNOWN: "Do not run the tool again. Use retry_pending_transaction with the txId; it checks whether the transaction landed before re-submitting it.",
+  UNEXPECTED_RESPONSE: "The Fortem API returned data in a shape this server does not understand. Update fortem-mcp; if it is current, report the message.",
+  POLICY_VIOLATION: "The signing policy blocked this transaction. Change FORTEM_POLICY_FILE or the FORTEM_* limits if it is intended.",
+  VERIFICATION_FAILED: "The prepared transaction did not match the request and was not signed. Do not retry blindly.",
+}
+
+/** A failure detected locally by a tool, with a machine-readable code. */
+export class ToolError extends Error {
+  readonly hint: string | undefined
+
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    hint?: string
+  ) {
+    super(message)
+    this.name = "ToolError"
+    this.hint = hint ?? HINTS[code]
+  }
+}
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+/** A non-2xx Fortem API response, with the error JSON parsed when possible. */
+export class FortemApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly apiMessage: string,
+    readonly apiCode: string | undefined,
+    readonly fieldErrors: FieldError[],
+    readonly path: string
+  ) {
+    super(`Fortem API Error ${status}: ${apiMessage}`)
+    this.name = "FortemApiError"
+  }
+
+  static fromResponse(status: number, path: string, body: string): FortemApiError {
+    let json: Record<string, unknown> | undefined
+    try {
+      const parsed: unknown = JSON.parse(body)
+      if (parsed && typeof parsed === "object") json = parsed as Record<string, unknown>
+    } catch {
+      // Not JSON (e.g. a gateway error page)
+    }
+    if (!json) return new FortemApiError(status, body || `HTTP ${status}`, undefined, [], path)
+
+    // Validation errors may arrive as a message array, an errors array or a field → message map
+    const fieldErrors: FieldError[] = []
+    const errors = json.errors ?? json.fieldErrors
+    if (Array.isArray(errors)) {
+      for (const entry of errors as Array<Record<string, unknown>>) {
+        fieldErrors.push({
+          field: String(entry.field ?? entry.property ?? ""),
+          message: String(entry.message ?? entry.reason ?? ""),
+        })
+      }
+    } else if (errors && typeof errors === "object") {
+      for (const [field, message] of Object.entries(errors)) fieldErrors.push({ field, message: String(message) })
+    }
+
+    const message = Array.isArray(json.message)
+      ? json.message.map(String).join("; ")
+      : String(json.message ?? json.error ?? body)
+    const code = json.code ?? json.errorCode
+    return new FortemApiError(status, message, code === undefined ? undefined : String(code), fieldErrors, path)
+  }
+
+  // Well-known failures first, then the HTTP status
+  get code(): ErrorCode {
+    const text = `${this.apiCode ?? ""} ${this.apiMessage}`
+    // "kiosk item not found" is about an item, not a missing kiosk
+    if (/\bno[\s_-]*kiosk\b|\bkiosk[\s_-]*(does[\s_-]*)?not[\s_-]*(exist|found)|\bkiosk[\s_-]*(is[\s_-]*)?(missing|required)/i.test(text)) {
+      return "KIOSK_MISSING"
+    }
+    if (/not.?(a.?)?(registered.?)?member|not.?registered|user.?not.?found/i.test(text)) return "NOT_A_MEMBER"
+    if (/not.?(the.?)?own|owner.?mismatch/i.test(text)) return "ITEM_NOT_OWNED"
+    if (this.status === 400 || this.status === 422) return "VALIDATION_ERROR"
+    if (this.status === 401) return "UNAUTHORIZED"
+    if (this.status === 403) return "FORBIDDEN"
+    if (this.status === 404) return "NOT_FOUND"
+    if (this.status === 429) return "RATE_LIMITED"
+    if (this.status >= 500) return "SERVER_ERROR"
+    return "API_ERROR"
+  }
+}
+
+export function toToolErrorResult(err: unknown): CallToolResult {
+  const message = err instanceof Error ? err.message : String(err)
+  let error: Record<string, unknown>
+
+  if (err instanceof FortemApiError) {
+    error = {
+      code: err.code,
+      message,
+      hint: HINTS[err.code],
+      status: err.status,
+      apiCode: err.apiCode,
+      fieldErrors: err.fieldErrors.length > 0 ? err.fieldErrors : undefined,
+    }
+  } else if (err instanceof ToolError) {
+    error = { code: err.code, message, hint: err.hint }
+  } else if (err instanceof PolicyViolationError) {
+    error = { code: "POLICY_VIOLATION", message, hint: HINTS.POLICY_VIOLATION, rule: err.rule }
+  } else if (err instanceof TransactionVerificationError) {
+    error = { code: "VERIFICATION_FAILED", message, hint: HINTS.VERIFICATION_FAILED, problems: err.problems }
+  } else {
+    error = { code: "TOOL_ERROR", message }
+  }
+
+  return {
+    content: [{ type: "text", text: JSON.stringify({ error }, null, 2) }],
+    isError: true,
+  }
+}
+
+/**
+ * Wraps every tool registered on `server` afterwards so thrown errors become
+ * isError results carrying a code and hint instead of a bare message.
+ */
+export function mapToolErrors(server: McpServer): void {
+  const register = server.registerTool.bind(server) as (...args: unknown[]) => ReturnType<McpServer["registerTool"]>
+  server.registerTool = ((...args: unknown[]) => {
+    const callback = args.pop() as (...callbackArgs: unknown[]) => Promise<CallToolResult>
+    return register(...args, async (...callbackArgs: unknown[]) => {
+      try {
+        return await callback(...callbackArgs)
+      } catch (err) {
+        return toToolErrorResult(err)
+      }
+    })
+  }) as McpServer["registerTool"]
+}
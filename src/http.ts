@@ -0,0 +1,222 @@
+import { randomUUID, timingSafeEqual } from "node:crypto"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+
+export interface HttpServerOptions {
+  host: string
+  port: number
+  // Required bearer token; undefined disables the guard (loopback only)
+  token?: string
+  // Sessions send wallet keys in headers; plain HTTP is then only served on loopback
+  sendsKeys?: boolean
+  // The operator confirmed TLS is terminated in front of this server
+  behindTls?: boolean
+  // Sessions without a request for this long are closed (default 30 minutes)
+  idleTimeoutMs?: number
+  // Builds the MCP server for a new session; may throw to reject the session
+  createSessionServer: (req: IncomingMessage) => McpServer
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"]
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+// Idle sessions are looked for at least this often
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000
+
+// Largest request body accepted; leaves room for a base64 item image at its 10 MB limit
+const MAX_BODY_BYTES = 16 * 1024 * 1024
+
+// Fails a request with a specific HTTP status instead of the default 400
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }))
+}
+
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(req.headers.authorization ?? "")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () => new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`)
+  if (Number(req.headers["content-length"] ?? 0) > MAX_BODY_BYTES) throw tooLarge()
+
+  // Content-Length may be missing or wrong; count what actually arrives
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw tooLarge()
+    chunks.push(chunk as Buffer)
+  }
+  const text = Buffer.concat(chunks).toString("utf8")
+  return text ? JSON.parse(text) : undefined
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp, with the older HTTP+SSE transport
+ * at /sse + /messages for clients that do not support it yet.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const loopback = LOOPBACK_HOSTS.includes(options.host)
+  if (!options.token && !loopback) {
+    throw new Error(`FORTEM_HTTP_TOKEN is required when binding to a non-loopback address (${options.host}).`)
+  }
+  if (options.sendsKeys && !options.behindTls && !loopback) {
+    throw new Error(
+      `FORTEM_SESSION_MODE=per-session sends wallet private keys in request headers; refusing to serve it over plain HTTP on ${options.host}. ` +
+      "Bind FORTEM_HTTP_HOST to a loopback address, or terminate TLS in front of the server and set FORTEM_HTTP_BEHIND_TLS=true."
+    )
+  }
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+  if (!Number.isInteger(idleTimeoutMs) || idleTimeoutMs < 1) {
+    throw new Error(`Session idle timeout (FORTEM_SESSION_IDLE_MS) must be a positive integer of milliseconds, got: ${idleTimeoutMs}`)
+  }
+
+  const streamable = new Map<string, StreamableHTTPServerTransport>()
+  const sse = new Map<string, SSEServerTransport>()
+
+  // Sessions hold a login and, in per-session mode, a private key; idle ones are
+  // closed so they do not pile up. A session with a call still running is busy.
+  const activity = new Map<string, { lastSeen: number; busy: number }>()
+
+  function touch(sessionId: string, req?: IncomingMessage, res?: ServerResponse): void {
+    const entry = activity.get(sessionId) ?? { lastSeen: 0, busy: 0 }
+    activity.set(sessionId, entry)
+    entry.lastSeen = Date.now()
+    // GET streams stay open while the client listens; only calls count as busy
+    if (req?.method !== "POST" || !res) return
+    entry.busy++
+    res.on("close", () => {
+      entry.busy--
+      entry.lastSeen = Date.now()
+    })
+  }
+
+  const sweep = setInterval(() => {
+    const now = Date.now()
+    for (const [sessionId, transport] of [...streamable, ...sse]) {
+      const entry = activity.get(sessionId)
+      if (!entry || entry.busy > 0 || now - entry.lastSeen < idleTimeoutMs) continue
+      process.stderr.write(`[fortem-mcp] Session idle, closing: ${sessionId}\n`)
+      void transport.close()
+    }
+  }, Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS))
+  sweep.unref()
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined
+
+    const existing = sessionId ? streamable.get(sessionId) : undefined
+    if (sessionId && existing) {
+      touch(sessionId, req, res)
+      await existing.handleRequest(req, res, body)
+      return
+    }
+
+    if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonError(res, sessionId ? 404 : 400, sessionId ? "Unknown session" : "No session; send an initialize request first")
+      return
+    }
+
+    const server = options.createSessionServer(req)
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamable.set(id, transport)
+        touch(id)
+        process.stderr.write(`[fortem-mcp] Session started: ${id}\n`)
+      },
+    })
+    // The server is disconnected along with its transport; closing it here
+    // would close the transport again and call back into this handler
+    transport.onclose = () => {
+      if (!transport.sessionId) return
+      streamable.delete(transport.sessionId)
+      activity.delete(transport.sessionId)
+    }
+
+    await server.connect(transport)
+    await transport.handleRequest(req, res, body)
+  }
+
+  async function handleSse(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const server = options.createSessionServer(req)
+    const transport = new SSEServerTransport("/messages", res)
+    sse.set(transport.sessionId, transport)
+    touch(transport.sessionId)
+    res.on("close", () => {
+      sse.delete(transport.sessionId)
+      activity.delete(transport.sessionId)
+      void server.close()
+    })
+    await server.connect(transport)
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId") ?? ""
+    const transport = sse.get(sessionId)
+    if (!transport) {
+      sendJsonError(res, 404, "Unknown session")
+      return
+    }
+    touch(sessionId, req, res)
+    await transport.handlePostMessage(req, res, await readJsonBody(req))
+  }
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`)
+
+    if (!isAuthorized(req, options.token)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" })
+      res.end()
+      return
+    }
+
+    let handler: Promise<void>
+    if (url.pathname === "/mcp") {
+      handler = handleStreamable(req, res)
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      handler = handleSse(req, res)
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      handler = handleSseMessage(req, res, url)
+    } else {
+      res.writeHead(404)
+      res.end()
+      return
+    }
+
+    handler.catch((err) => {
+      process.stderr.write(`[fortem-mcp] HTTP error: ${(err as Error).message}\n`)
+      if (!res.headersSent) sendJsonError(res, err instanceof HttpError ? err.status : 400, (err as Error).message)
+      else res.end()
+    })
+  })
+
+  httpServer.on("close", () => clearInterval(sweep))
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject)
+    httpServer.listen(options.port, options.host, resolve)
+  })
+  process.stderr.write(
+    `[fortem-mcp] Server started (Streamable HTTP at http://${options.host}:${options.port}/mcp, SSE at /sse)\n`
+  )
+  return httpServer
+}
@@ -0,0 +1,94 @@
+export interface ImageFormat {
+  mimeType: string
+  extension: string
+}
+
+export interface ImageInfo extends ImageFormat {
+  width: number
+  height: number
+}
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+function startsWith(bytes: Buffer, signature: number[], offset = 0): boolean {
+  return bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+function ascii(bytes: Buffer, start: number, end: number): string {
+  return bytes.subarray(start, end).toString("latin1")
+}
+
+/** Identifies the image format from its magic bytes; undefined for anything else. */
+export function sniffImageFormat(bytes: Buffer): ImageFormat | undefined {
+  if (startsWith(bytes, PNG)) return { mimeType: "image/png", extension: "png" }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return { mimeType: "image/jpeg", extension: "jpg" }
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return { mimeType: "image/gif", extension: "gif" }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return { mimeType: "image/webp", extension: "webp" }
+  return undefined
+}
+
+// Walks the JPEG segments up to the first start-of-frame marker
+function jpegSize(bytes: Buffer): { width: number; height: number } | undefined {
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined
+    const marker = bytes[offset + 1]
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // Markers without a length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2
+      continue
+    }
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+    if (isFrame) return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) }
+    offset += 2 + bytes.readUInt16BE(offset + 2)
+  }
+  return undefined
+}
+
+function webpSize(bytes: Buffer): { width: number; height: number } | undefined {
+  const chunk = ascii(bytes, 12, 16)
+  if (chunk === "VP8 " && bytes.length >= 30) {
+    return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff }
+  }
+  if (chunk === "VP8L" && bytes.length >= 25) {
+    const bits = bytes.readUInt32LE(21)
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+  }
+  if (chunk === "VP8X" && bytes.length >= 30) {
+    return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 }
+  }
+  return undefined
+}
+
+/** Reads the format and pixel size from the image header; undefined if either is unreadable. */
+export function readImageInfo(bytes: Buffer): ImageInfo | undefined {
+  const format = sniffImageFormat(bytes)
+  if (!format) return undefined
+
+  let size: { width: number; height: number } | undefined
+  try {
+    switch (format.mimeType) {
+      case "image/png":
+        size = bytes.length >= 24 ? { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) } : undefined
+        break
+      case "image/gif":
+        size = bytes.length >= 10 ? { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) } : undefined
+        break
+      case "image/jpeg":
+        size = jpegSize(bytes)
+        break
+      case "image/webp":
+        size = webpSize(bytes)
+        break
+    }
+  } catch {
+    // A truncated header reads past the end of the buffer
+    size = undefined
+  }
+
+  return size && size.width > 0 && size.height > 0 ? { ...format, ...size } : undefined
+}
@@ -1,18 +1,42 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { FortemClient } from "./client.js"
-import {
-  loginWithEd25519,
-  createEd25519Signer,
-} from "./auth.js"
 import { getNetworkConfig } from "./types.js"
 import type { Signer } from "./signer.js"
-import { registerCollectionTools } from "./tools/collection.js"
-import { registerItemTools } from "./tools/item.js"
-import { registerKioskTools } from "./tools/kiosk.js"
-import { registerMarketTools } from "./tools/market.js"
-import { registerDeveloperTools } from "./tools/developer.js"
+import { TransactionRunner } from "./transaction.js"
+import { loadSigningPolicy, SpendLedger } from "./policy.js"
+import { auditLogPath } from "./audit.js"
+import {
+  AccountRegistry,
+  createAccount,
+  DEFAULT_ACCOUNT_NAME,
+  loadAccountKeySources,
+  type Account,
+  type AccountOptions,
+} from "./account.js"
+import type { FortemPackages } from "./verify.js"
+import { createFortemServer, PROMPT_SUMMARY, RESOURCE_SUMMARY, TOOL_SUMMARY } from "./server.js"
+import { startHttpServer } from "./http.js"
+
+// The Fortem package IDs differ per network, so they are configured for the network being served
+function parseFortemPackages(value = ""): FortemPackages {
+  if (value.trim() === "any") {
+    process.stderr.write(
+      "[fortem-mcp] WARNING: FORTEM_MOVE_PACKAGES=any — prepared transactions may call ANY non-framework Move package.\n" +
+      "[fortem-mcp] WARNING: A compromised API could get arbitrary calls signed. Pin the Fortem package IDs instead.\n"
+    )
+    return "any"
+  }
+
+  const packages = value.split(",").map((id) => id.trim()).filter(Boolean)
+  if (packages.length === 0) {
+    process.stderr.write(
+      "[fortem-mcp] WARNING: FORTEM_MOVE_PACKAGES is not set — transactions calling Fortem packages will be refused.\n" +
+      "[fortem-mcp] WARNING: Set it to the comma-separated Fortem package IDs for this network (Smithery: fortemMovePackages).\n"
+    )
+  }
+  return packages
+}
 
 async function main(): Promise<void> {
   // ── 1. Network configuration ─────────────────────
@@ -23,96 +47,75 @@ async function main(): Promise<void> {
   const config = getNetworkConfig(networkEnv)
   process.stderr.write(`[fortem-mcp] Network: ${networkEnv} (${config.apiUrl})\n`)
 
-  // ── 2. Lazy auth state ────────────────────────────
-  let _realSigner: Signer | null = null
-  let _developerApiKey = ""
-  let _authInitialized = false
-  let _initPromise: Promise<void> | null = null
-
-  async function ensureInit(): Promise<void> {
-    if (_authInitialized) return
-    if (_initPromise) return _initPromise
-    _initPromise = _doInit().then(() => { _authInitialized = true })
-    return _initPromise
-  }
-
-  async function _doInit(): Promise<void> {
-    if (!process.env.SUI_PRIVATE_KEY) {
-      throw new Error(
-        "SUI_PRIVATE_KEY is required.\n\n" +
-        "  Set SUI_PRIVATE_KEY=suiprivkey1... to authenticate.\n\n" +
-        "  Export your private key from Sui Wallet → Settings → Accounts → Export Private Key."
-      )
-    }
-
-    const { keypair, signer: ed25519Signer } = createEd25519Signer(process.env.SUI_PRIVATE_KEY)
-    _realSigner = ed25519Signer
-
-    process.stderr.write(`[fortem-mcp] Wallet address: ${_realSigner.getAddress()}\n`)
-    process.stderr.write("[fortem-mcp] Logging in...\n")
-    const token = await loginWithEd25519(client, keypair)
-    client.setToken(token)
-    process.stderr.write("[fortem-mcp] Login successful (Ed25519)\n")
-
-    process.stderr.write("[fortem-mcp] Fetching developer API key...\n")
-    const { apiKey } = await client.get<{ apiKey: string }>(
-      "/api/v1/users/settings/developers/api-key"
-    )
-    _developerApiKey = apiKey
-    process.stderr.write("[fortem-mcp] Developer API key ready\n")
+  // ── 2. Signing policy + local transaction verification ──
+  const fortemPackages = parseFortemPackages(process.env.FORTEM_MOVE_PACKAGES)
+  const policy = loadSigningPolicy(process.env, networkEnv)
+  process.stderr.write(`[fortem-mcp] Signing policy: ${JSON.stringify(policy)}\n`)
+  // Signatures from the last 24h count against the daily budget after a restart
+  const spendLedger = await SpendLedger.fromJournal(auditLogPath(), networkEnv)
+
+  const accountOptions: Omit<AccountOptions, "keySource"> = {
+    apiUrl: config.apiUrl,
+    network: networkEnv,
+    policy,
+    spendLedger,
+    fortemPackages,
+    tokenCache: process.env.FORTEM_TOKEN_CACHE !== "false",
+    requestOptions: {
+      ...(process.env.FORTEM_API_TIMEOUT_MS && { timeoutMs: Number(process.env.FORTEM_API_TIMEOUT_MS) }),
+      ...(process.env.FORTEM_API_MAX_RETRIES && { maxRetries: Number(process.env.FORTEM_API_MAX_RETRIES) }),
+    },
+    ...(process.env.FORTEM_TX_CONCURRENCY && { transactionConcurrency: Number(process.env.FORTEM_TX_CONCURRENCY) }),
   }
 
-  // ── 3. Create HTTP client ─────────────────────────
-  const client = new FortemClient(
-    config.apiUrl,
-    async () => {
-      process.stderr.write("[fortem-mcp] Token expired, re-authenticating...\n")
-      _authInitialized = false
-      _initPromise = null
-      await ensureInit()
-      process.stderr.write("[fortem-mcp] Re-authentication successful\n")
-    },
-    ensureInit
+  // ── 3. Named accounts (each lazy: logs in on first use) ──
+  const accountEntries = [...loadAccountKeySources(process.env)].map(
+    ([name, keySource]) => [name, createAccount({ ...accountOptions, keySource })] as const
+  )
+  const sharedAccounts = new AccountRegistry(new Map(accountEntries), process.env.FORTEM_ACCOUNT)
+  process.stderr.write(
+    `[fortem-mcp] Accounts: ${sharedAccounts.names().join(", ")} (active: ${sharedAccounts.active})\n`
   )
 
-  // ── 4. Lazy signer proxy ──────────────────────────
-  const lazySigner: Signer = {
-    getAddress(): string {
-      if (!_realSigner) throw new Error("Not authenticated. Ensure SUI_PRIVATE_KEY is set.")
-      return _realSigner.getAddress()
-    },
-    async signTransaction(txBytes: string): Promise<string> {
-      await ensureInit()
-      return _realSigner!.signTransaction(txBytes)
-    },
-    async signPersonalMessage(messageBytes: Uint8Array): Promise<{ bytes: string; signature: string }> {
-      await ensureInit()
-      return _realSigner!.signPersonalMessage(messageBytes)
-    },
+  process.stderr.write(`[fortem-mcp] Tools registered: ${TOOL_SUMMARY}\n`)
+  process.stderr.write(`[fortem-mcp] Resources registered: ${RESOURCE_SUMMARY}\n`)
+  process.stderr.write(`[fortem-mcp] Prompts registered: ${PROMPT_SUMMARY}\n`)
+
+  // ── 4. Start server ───────────────────────────────
+  const useHttp = process.argv.includes("--http") || process.env.FORTEM_TRANSPORT === "http"
+  if (!useHttp) {
+    const server = createFortemServer(sharedAccounts, networkEnv)
+    const transport = new StdioServerTransport()
+    await server.connect(transport)
+    process.stderr.write("[fortem-mcp] Server started (stdio transport)\n")
+    return
   }
 
-  // ── 5. Create MCP server ──────────────────────────
-  const server = new McpServer({
-    name: "fortem-mcp",
-    version: "0.1.0",
-  })
-
-  // ── 6. Register tools ─────────────────────────────
-  registerCollectionTools(server, client, lazySigner)
-  registerItemTools(server, client, lazySigner)
-  registerKioskTools(server, client, lazySigner)
-  registerMarketTools(server, client, lazySigner)
-  registerDeveloperTools(server, client, async () => {
-    await ensureInit()
-    return _developerApiKey
+  const sessionMode = process.env.FORTEM_SESSION_MODE ?? "shared"
+  if (sessionMode !== "shared" && sessionMode !== "per-session") {
+    throw new Error(`FORTEM_SESSION_MODE must be "shared" or "per-session", got: "${sessionMode}"`)
+  }
+  process.stderr.write(`[fortem-mcp] Session mode: ${sessionMode}\n`)
+
+  await startHttpServer({
+    host: process.env.FORTEM_HTTP_HOST ?? "127.0.0.1",
+    port: Number(process.env.FORTEM_HTTP_PORT ?? 3000),
+    token: process.env.FORTEM_HTTP_TOKEN,
+    sendsKeys: sessionMode === "per-session",
+    behindTls: process.env.FORTEM_HTTP_BEHIND_TLS === "true",
+    ...(process.env.FORTEM_SESSION_IDLE_MS && { idleTimeoutMs: Number(process.env.FORTEM_SESSION_IDLE_MS) }),
+    createSessionServer: (req) => {
+      if (sessionMode === "shared") return createFortemServer(sharedAccounts, networkEnv)
+
+      // per-session: each session logs in with its own wallet and gets its own JWT
+      const privateKey = req.headers["x-sui-private-key"]
+      if (typeof privateKey !== "string" || !privateKey) {
+        throw new Error("X-Sui-Private-Key header is required when FORTEM_SESSION_MODE=per-session")
+      }
+      const account = createAccount({ ...accountOptions, keySource: { privateKey } })
+      return createFortemServer(new AccountRegistry(new Map([[DEFAULT_ACCOUNT_NAME, account]])), networkEnv)
+    },
   })
-
-  process.stderr.write("[fortem-mcp] Tools registered: [Personal] create_collection, get_my_collections, get_collection_detail, upload_image, mint_item, get_my_items, get_item_detail, ensure_kiosk, list_item | [Developer] get_developer_guide, get_my_api_key, verify_member, get_my_profile\n")
-
-  // ── 7. Start server ───────────────────────────────
-  const transport = new StdioServerTransport()
-  await server.connect(transport)
-  process.stderr.write("[fortem-mcp] Server started (stdio transport)\n")
 }
 
 main().catch((err) => {
@@ -123,8 +126,6 @@ main().catch((err) => {
 // ── Smithery sandbox export ───────────────────────
 // Used by Smithery to scan tools without real credentials
 export function createSandboxServer() {
-  const server = new McpServer({ name: "fortem-mcp", version: "0.1.2" })
-
   const stubClient = new FortemClient("", async () => {}, undefined)
   const stubSigner: Signer = {
     getAddress: () => "0x0000000000000000000000000000000000000000",
@@ -132,11 +133,14 @@ export function createSandboxServer() {
     signPersonalMessage: async () => ({ bytes: "", signature: "" }),
   }
 
-  registerCollectionTools(server, stubClient, stubSigner)
-  registerItemTools(server, stubClient, stubSigner)
-  registerKioskTools(server, stubClient, stubSigner)
-  registerMarketTools(server, stubClient, stubSigner)
-  registerDeveloperTools(server, stubClient, async () => "YOUR_API_KEY")
+  const stubAccount: Account = {
+    client: stubClient,
+    signer: stubSigner,
+    transactions: new TransactionRunner(stubClient, stubSigner),
+    getDeveloperApiKey: async () => "YOUR_API_KEY",
+    setDeveloperApiKey: () => {},
+    isAuthenticated: () => false,
+  }
 
-  return server
+  return createFortemServer(new AccountRegistry(new Map([[DEFAULT_ACCOUNT_NAME, stubAccount]])), "testnet")
 }
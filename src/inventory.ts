@@ -0,0 +1,125 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { z } from "zod"
+import { getDataDir } from "./paths.js"
+import { attributeSchema, itemSearchItemSchema } from "./schemas.js"
+
+export interface InventoryCollection {
+  id: number
+  objectId: string
+  name: string
+  description: string
+  tradeVolume: string
+  itemCount: number
+  createdAt: string
+}
+
+export const inventoryItemSchema = itemSearchItemSchema.extend({
+  // From the item detail endpoint
+  objectId: z.string().optional(),
+  attributes: z.array(attributeSchema).optional(),
+})
+export type InventoryItem = z.infer<typeof inventoryItemSchema>
+
+export interface InventorySnapshot {
+  network: string
+  walletAddress: string
+  syncedAt: string | null
+  collections: InventoryCollection[]
+  items: InventoryItem[]
+}
+
+export interface InventoryQuery {
+  collectionIds?: number[]
+  status?: string
+  query?: string
+  attributeName?: string
+  attributeValue?: string
+  minPrice?: number
+  maxPrice?: number
+  tokenSymbol?: string
+  createdAfter?: string
+  createdBefore?: string
+  sortBy?: "tradeVolume" | "price" | "createdAt"
+  sortOrder?: "asc" | "desc"
+  limit?: number
+}
+
+export function inventoryPath(network: string, walletAddress: string): string {
+  return join(getDataDir(), "inventory", `${network}-${walletAddress}.json`)
+}
+
+export async function loadInventory(network: string, walletAddress: string): Promise<InventorySnapshot> {
+  try {
+    return JSON.parse(await readFile(inventoryPath(network, walletAddress), "utf8")) as InventorySnapshot
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err
+    return { network, walletAddress, syncedAt: null, collections: [], items: [] }
+  }
+}
+
+export async function saveInventory(snapshot: InventorySnapshot): Promise<void> {
+  const path = inventoryPath(snapshot.network, snapshot.walletAddress)
+  await mkdir(join(getDataDir(), "inventory"), { recursive: true })
+  // Write then rename so a crash never leaves a half-written mirror
+  await writeFile(`${path}.tmp`, JSON.stringify(snapshot, null, 2))
+  await rename(`${path}.tmp`, path)
+}
+
+function sortValue(item: InventoryItem, sortBy: NonNullable<InventoryQuery["sortBy"]>): number {
+  if (sortBy === "tradeVolume") return Number(item.tradeVolume) || 0
+  if (sortBy === "price") return item.kiosk ? Number(item.kiosk.price) : NaN
+  return Date.parse(item.createdAt)
+}
+
+export function queryInventory(items: InventoryItem[], q: InventoryQuery): InventoryItem[] {
+  const text = q.query?.toLowerCase()
+  const attributeName = q.attributeName?.toLowerCase()
+  const attributeValue = q.attributeValue?.toLowerCase()
+  const after = q.createdAfter ? Date.parse(q.createdAfter) : undefined
+  const before = q.createdBefore ? Date.parse(q.createdBefore) : undefined
+
+  const matches = items.filter((item) => {
+    if (q.collectionIds?.length && !q.collectionIds.includes(item.collection.id)) return false
+    if (q.status && item.status !== q.status) return false
+    if (text && !item.name.toLowerCase().includes(text) && !item.description.toLowerCase().includes(text)) return false
+
+    if (attributeName || attributeValue) {
+      const hit = (item.attributes ?? []).some(
+        (attr) =>
+          (!attributeName || attr.name.toLowerCase() === attributeName) &&
+          (!attributeValue || attr.value.toLowerCase() === attributeValue)
+      )
+      if (!hit) return false
+    }
+
+    if (q.minPrice !== undefined || q.maxPrice !== undefined || q.tokenSymbol) {
+      if (!item.kiosk) return false
+      const price = Number(item.kiosk.price)
+      if (q.minPrice !== undefined && !(price >= q.minPrice)) return false
+      if (q.maxPrice !== undefined && !(price <= q.maxPrice)) return false
+      if (q.tokenSymbol && item.kiosk.priceTokenSymbol !== q.tokenSymbol) return false
+    }
+
+    const createdAt = Date.parse(item.createdAt)
+    if (after !== undefined && !(createdAt >= after)) return false
+    if (before !== undefined && !(createdAt <= before)) return false
+
+    return true
+  })
+
+  if (q.sortBy) {
+    const sortBy = q.sortBy
+    const direction = q.sortOrder === "asc" ? 1 : -1
+    // Items without a value (e.g. unlisted items when sorting by price) go last
+    matches.sort((a, b) => {
+      const va = sortValue(a, sortBy)
+      const vb = sortValue(b, sortBy)
+      if (Number.isNaN(va)) return Number.isNaN(vb) ? 0 : 1
+      if (Number.isNaN(vb)) return -1
+      return (va - vb) * direction
+    })
+  }
+
+  return q.limit ? matches.slice(0, q.limit) : matches
+}
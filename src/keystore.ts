@@ -0,0 +1,135 @@
+import { readFileSync } from "node:fs"
+import { homedir } from "node:os"
+import { dirname, join } from "node:path"
+import {
+  decodeSuiPrivateKey,
+  encodeSuiPrivateKey,
+  SIGNATURE_FLAG_TO_SCHEME,
+  type Keypair,
+} from "@mysten/sui/cryptography"
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519"
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1"
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+
+// Where the wallet key comes from: a raw bech32 key, or an entry in a Sui CLI keystore
+export interface KeySource {
+  privateKey?: string
+  // Alias, address or "active" (client.yaml active_address)
+  keyAlias?: string
+  keystorePath?: string
+  clientConfigPath?: string
+}
+
+interface AliasEntry {
+  alias: string
+  public_key_base64: string
+}
+
+const DEFAULT_CLIENT_CONFIG = join(homedir(), ".sui", "sui_config", "client.yaml")
+const DEFAULT_KEYSTORE = join(homedir(), ".sui", "sui_config", "sui.keystore")
+
+export function keySourceFromEnv(env: NodeJS.ProcessEnv): KeySource {
+  return {
+    privateKey: env.SUI_PRIVATE_KEY || undefined,
+    keyAlias: env.SUI_KEY_ALIAS || undefined,
+    keystorePath: env.SUI_KEYSTORE_PATH || undefined,
+    clientConfigPath: env.SUI_CLIENT_CONFIG || undefined,
+  }
+}
+
+export function hasKeySource(source: KeySource): boolean {
+  return Boolean(source.privateKey || source.keyAlias || source.keystorePath)
+}
+
+/** Builds a keypair from a `suiprivkey1...` key, detecting the scheme from its flag byte. */
+export function keypairFromPrivateKey(privateKey: string): Keypair {
+  const { scheme, secretKey } = decodeSuiPrivateKey(privateKey.trim())
+  switch (scheme) {
+    case "ED25519":
+      return Ed25519Keypair.fromSecretKey(secretKey)
+    case "Secp256k1":
+      return Secp256k1Keypair.fromSecretKey(secretKey)
+    case "Secp256r1":
+      return Secp256r1Keypair.fromSecretKey(secretKey)
+    default:
+      throw new Error(`Unsupported key scheme "${scheme}". Use an Ed25519, Secp256k1 or Secp256r1 key.`)
+  }
+}
+
+// Keystore entries are base64(flag || secretKey); newer CLIs may also store bech32 keys
+function keypairFromKeystoreEntry(entry: string): Keypair {
+  if (entry.startsWith("suiprivkey")) return keypairFromPrivateKey(entry)
+  const raw = Buffer.from(entry, "base64")
+  const scheme = SIGNATURE_FLAG_TO_SCHEME[raw[0] as keyof typeof SIGNATURE_FLAG_TO_SCHEME]
+  if (!scheme) throw new Error(`Unknown key flag ${raw[0]} in keystore`)
+  return keypairFromPrivateKey(encodeSuiPrivateKey(raw.subarray(1), scheme))
+}
+
+function readClientConfig(path: string): { keystorePath?: string; activeAddress?: string } {
+  let text: string
+  try {
+    text = readFileSync(path, "utf8")
+  } catch {
+    return {}
+  }
+  // client.yaml is simple enough that the two fields we need can be read without a YAML parser
+  const keystore = /^\s*File:\s*"?([^"\n]+?)"?\s*$/m.exec(text)
+  const active = /^\s*active_address:\s*"?(0x[0-9a-fA-F]+)"?\s*$/m.exec(text)
+  return { keystorePath: keystore?.[1], activeAddress: active?.[1] }
+}
+
+function readAliases(keystorePath: string): AliasEntry[] {
+  try {
+    return JSON.parse(readFileSync(join(dirname(keystorePath), "sui.aliases"), "utf8")) as AliasEntry[]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Loads a key from a Sui CLI keystore by alias, address or "active"
+ * (the client.yaml active_address, the default when no alias is given).
+ */
+export function loadKeypairFromKeystore(source: KeySource): Keypair {
+  const clientConfigPath = source.clientConfigPath ?? DEFAULT_CLIENT_CONFIG
+  const clientConfig = readClientConfig(clientConfigPath)
+  const keystorePath = source.keystorePath ?? clientConfig.keystorePath ?? DEFAULT_KEYSTORE
+
+  let entries: string[]
+  try {
+    entries = JSON.parse(readFileSync(keystorePath, "utf8")) as string[]
+  } catch (err) {
+    throw new Error(`Could not read Sui keystore at ${keystorePath}: ${(err as Error).message}`)
+  }
+  const keypairs = entries.map(keypairFromKeystoreEntry)
+
+  const wanted = source.keyAlias ?? "active"
+  if (wanted === "active") {
+    if (!clientConfig.activeAddress) {
+      throw new Error(`No active_address in ${clientConfigPath}; set SUI_KEY_ALIAS to an alias or address.`)
+    }
+    return findByAddress(keypairs, clientConfig.activeAddress, keystorePath)
+  }
+  if (wanted.startsWith("0x")) return findByAddress(keypairs, wanted, keystorePath)
+
+  const alias = readAliases(keystorePath).find((a) => a.alias === wanted)
+  if (!alias) throw new Error(`No key alias "${wanted}" in ${join(dirname(keystorePath), "sui.aliases")}`)
+  const keypair = keypairs.find(
+    (kp) => Buffer.from(kp.getPublicKey().toSuiBytes()).toString("base64") === alias.public_key_base64
+  )
+  if (!keypair) throw new Error(`Key alias "${wanted}" has no matching key in ${keystorePath}`)
+  return keypair
+}
+
+function findByAddress(keypairs: Keypair[], address: string, keystorePath: string): Keypair {
+  const target = normalizeSuiAddress(address)
+  const keypair = keypairs.find((kp) => kp.toSuiAddress() === target)
+  if (!keypair) throw new Error(`No key for address ${target} in ${keystorePath}`)
+  return keypair
+}
+
+/** Resolves a key source: a raw private key wins over the keystore. */
+export function loadKeypair(source: KeySource): Keypair {
+  return source.privateKey ? keypairFromPrivateKey(source.privateKey) : loadKeypairFromKeystore(source)
+}
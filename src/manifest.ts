@@ -0,0 +1,190 @@
+import { appendFile, readFile } from "node:fs/promises"
+import { dirname, extname, isAbsolute, resolve } from "node:path"
+import { z } from "zod"
+
+// Same limits as mint_item
+const manifestRowSchema = z.object({
+  collectionId: z.coerce.number().int().positive().optional(),
+  name: z.string().min(1).max(40),
+  description: z.string().max(1000),
+  quantity: z.coerce.number().int().positive().default(1),
+  redeemCode: z.string().regex(/^\S+$/, "redeemCode must not contain spaces"),
+  redeemUrl: z.string().max(200).optional(),
+  itemImage: z.string().optional(),
+  imagePath: z.string().optional(),
+  attributes: z.array(z.object({ name: z.string(), value: z.string() })).optional(),
+})
+
+export type ManifestRow = z.infer<typeof manifestRowSchema>
+
+export type JournalStatus = "uploaded" | "submitted" | "minted" | "failed"
+
+export interface JournalEntry {
+  row: number
+  status: JournalStatus
+  name: string
+  redeemCode: string
+  itemImage?: string
+  txId?: string
+  itemId?: number
+  objectId?: string
+  error?: string
+  at: string
+}
+
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ",") {
+      record.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += ch
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const [header, ...rows] = records.filter((r) => r.some((cell) => cell.trim() !== ""))
+  if (!header) return []
+  const columns = header.map((column) => column.trim())
+
+  return rows.map((cells) => {
+    const row: Record<string, string> = {}
+    columns.forEach((column, i) => {
+      const value = cells[i]?.trim()
+      if (value) row[column] = value
+    })
+    return row
+  })
+}
+
+// CSV attributes come either as a JSON "attributes" column or as "attr:<Name>" columns
+export function csvRowToInput(row: Record<string, string>): Record<string, unknown> {
+  const input: Record<string, unknown> = {}
+  const attributes: Array<{ name: string; value: string }> = []
+
+  for (const [column, value] of Object.entries(row)) {
+    if (column.startsWith("attr:")) {
+      attributes.push({ name: column.slice("attr:".length), value })
+    } else if (column === "attributes") {
+      attributes.push(...JSON.parse(value))
+    } else {
+      input[column] = value
+    }
+  }
+
+  if (attributes.length > 0) input.attributes = attributes
+  return input
+}
+
+/**
+ * Reads a CSV or JSON manifest. JSON may be an array of rows or { items: [...] };
+ * JSON attributes may also be a { name: value } map. Relative imagePath values
+ * are resolved against the manifest's directory.
+ */
+export async function readManifest(manifestPath: string): Promise<ManifestRow[]> {
+  const text = await readFile(manifestPath, "utf8")
+
+  let inputs: unknown[]
+  if (extname(manifestPath).toLowerCase() === ".csv") {
+    inputs = parseCsv(text).map(csvRowToInput)
+  } else {
+    const json = JSON.parse(text)
+    inputs = Array.isArray(json) ? json : json.items
+    if (!Array.isArray(inputs)) {
+      throw new Error("JSON manifest must be an array of rows or an object with an \"items\" array")
+    }
+    inputs = inputs.map((input) => {
+      const attributes = (input as { attributes?: unknown }).attributes
+      if (attributes && !Array.isArray(attributes) && typeof attributes === "object") {
+        return {
+          ...(input as object),
+          attributes: Object.entries(attributes).map(([name, value]) => ({ name, value: String(value) })),
+        }
+      }
+      return input
+    })
+  }
+
+  const baseDir = dirname(manifestPath)
+  return inputs.map((input, i) => {
+    const parsed = manifestRowSchema.safeParse(input)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      throw new Error(`Manifest row ${i + 1} is invalid: ${issues.join("; ")}`)
+    }
+    const row = parsed.data
+    if (row.imagePath && !isAbsolute(row.imagePath)) {
+      row.imagePath = resolve(baseDir, row.imagePath)
+    }
+    return row
+  })
+}
+
+export class MintJournal {
+  private constructor(
+    readonly path: string,
+    private readonly latest: Map<number, JournalEntry>,
+    // The last line was cut short; the next entry must start on a line of its own
+    private unterminated: boolean
+  ) {}
+
+  // Replays the journal so each row's most recent entry wins
+  static async open(path: string): Promise<MintJournal> {
+    const latest = new Map<number, JournalEntry>()
+    let text = ""
+    try {
+      text = await readFile(path, "utf8")
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err
+    }
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue
+      let entry: JournalEntry
+      try {
+        entry = JSON.parse(line) as JournalEntry
+      } catch {
+        // A line cut short by a crash; the rest of the journal is still usable
+        continue
+      }
+      latest.set(entry.row, entry)
+    }
+    return new MintJournal(path, latest, text !== "" && !text.endsWith("\n"))
+  }
+
+  get(row: number): JournalEntry | undefined {
+    return this.latest.get(row)
+  }
+
+  async record(entry: Omit<JournalEntry, "at">): Promise<void> {
+    const full: JournalEntry = { ...entry, at: new Date().toISOString() }
+    await appendFile(this.path, (this.unterminated ? "\n" : "") + JSON.stringify(full) + "\n")
+    this.unterminated = false
+    this.latest.set(full.row, full)
+  }
+}
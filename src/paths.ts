@@ -0,0 +1,7 @@
+import { homedir } from "node:os"
+import { join } from "node:path"
+
+// Local state (inventory mirror, journals, caches) lives under FORTEM_DATA_DIR
+export function getDataDir(): string {
+  return process.env.FORTEM_DATA_DIR ?? join(homedir(), ".fortem-mcp")
+}
@@ -0,0 +1,257 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { z } from "zod"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import type { FortemClient } from "./client.js"
+import { getDataDir } from "./paths.js"
+import {
+  checkRedeemCodeResponseSchema,
+  collectionHeaderSchema,
+  collectionListItemSchema,
+  itemDetailSchema,
+  itemSearchItemSchema,
+  kioskExistsResponseSchema,
+} from "./schemas.js"
+import type { TxResponse } from "./types.js"
+
+// The API and this machine may disagree on the time; objects created this long
+// before the signature still count as the result of the transaction
+const CLOCK_SKEW_MS = 10 * 60 * 1000
+// Same-name objects looked at when telling new ones from old ones
+const MAX_NAME_MATCHES = 1000
+
+// How retry_pending_transaction tells whether a signed transaction already landed
+export const existingCheckSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("kiosk") }),
+  // Names are not unique: only a collection missing from knownIds (taken before signing) counts
+  z.object({ kind: z.literal("collection"), name: z.string(), knownIds: z.array(z.number()).optional() }),
+  // The redeem code set by the mint identifies its item; the name is only a fallback for reused codes
+  z.object({
+    kind: z.literal("item"),
+    collectionId: z.number(),
+    name: z.string(),
+    redeemCode: z.string().optional(),
+    knownIds: z.array(z.number()).optional(),
+    redeemCodeInUse: z.boolean().optional(),
+  }),
+  // Every given field must match the collection header
+  z.object({
+    kind: z.literal("collectionState"),
+    collectionId: z.number(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    tokenSymbols: z.array(z.string()).optional(),
+    purchaseFeeRate: z.number().optional(),
+    isDnaActivated: z.boolean().optional(),
+  }),
+  // Every given field must match the item's current state
+  z.object({
+    kind: z.literal("itemState"),
+    itemId: z.number(),
+    ownerAddress: z.string().optional(),
+    status: z.string().optional(),
+    notStatus: z.string().optional(),
+    price: z.number().optional(),
+    priceTokenSymbol: z.string().optional(),
+  }),
+])
+export type ExistingCheck = z.infer<typeof existingCheckSchema>
+
+export interface PendingTransaction {
+  tool: string
+  prepared: TxResponse
+  signature: string
+  signer: string
+  executePath: string
+  // Sanitized tool params, for display only
+  params?: Record<string, unknown>
+  existing?: ExistingCheck
+  signedAt: string
+  attempts: number
+  lastAttemptAt?: string
+  lastError?: string
+}
+
+// One directory per signer, so sessions sharing the data dir never see each other's entries
+export function pendingDir(network: string, signer: string): string {
+  return join(getDataDir(), "pending", network, normalizeSuiAddress(signer))
+}
+
+/**
+ * Signed transactions whose /execute call has not succeeded yet, one JSON
+ * file per txId, so they survive a crash or restart and can be retried.
+ */
+export class PendingStore {
+  // Resolved on use: a lazy account only knows its address once the key is loaded
+  constructor(private readonly dirFor: () => string) {}
+
+  get dir(): string {
+    return this.dirFor()
+  }
+
+  private path(txId: string): string {
+    // txIds come from the API; keep them from escaping the directory
+    return join(this.dir, `${encodeURIComponent(txId)}.json`)
+  }
+
+  async save(entry: PendingTransaction): Promise<void> {
+    const path = this.path(entry.prepared.txId)
+    await mkdir(this.dir, { recursive: true })
+    await writeFile(`${path}.tmp`, JSON.stringify(entry, null, 2))
+    await rename(`${path}.tmp`, path)
+  }
+
+  async get(txId: string): Promise<PendingTransaction | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path(txId), "utf8")) as PendingTransaction
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined
+      throw err
+    }
+  }
+
+  async remove(txId: string): Promise<void> {
+    await rm(this.path(txId), { force: true })
+  }
+
+  /** All pending transactions, oldest signature first. */
+  async list(): Promise<PendingTransaction[]> {
+    let names: string[]
+    try {
+      names = await readdir(this.dir)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw err
+    }
+
+    const entries: PendingTransaction[] = []
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      try {
+        entries.push(JSON.parse(await readFile(join(this.dir, name), "utf8")) as PendingTransaction)
+      } catch (err) {
+        process.stderr.write(`[fortem-mcp] Ignoring unreadable pending transaction ${name}: ${(err as Error).message}\n`)
+      }
+    }
+    return entries.sort((a, b) => a.signedAt.localeCompare(b.signedAt))
+  }
+}
+
+type ExistingClient = Pick<FortemClient, "get" | "getAllPages" | "post">
+
+// IDs of every collection or item with the same name; undefined when there were too many to be sure
+async function sameNameIds(
+  client: ExistingClient,
+  check: Extract<ExistingCheck, { kind: "collection" | "item" }>
+): Promise<Array<{ id: number; createdAt: string }> | undefined> {
+  const params = new URLSearchParams({ query: check.name })
+  if (check.kind === "item") params.set("collectionIds", String(check.collectionId))
+  const { data, truncated } = check.kind === "item"
+    ? await client.getAllPages("/api/v1/items", params, MAX_NAME_MATCHES, itemSearchItemSchema)
+    : await client.getAllPages("/api/v1/collections", params, MAX_NAME_MATCHES, collectionListItemSchema)
+  return truncated ? undefined : data.filter((entry) => entry.name === check.name)
+}
+
+async function lookUpRedeemCode(client: ExistingClient, collectionId: number, redeemCode: string): Promise<number | undefined> {
+  const result = await client.post("/api/v1/items/redeem/check", { redeemCode, collectionId }, checkRedeemCodeResponseSchema)
+  return result.valid ? result.itemId ?? undefined : undefined
+}
+
+/**
+ * Records what already exists before signing, so a retry can tell the
+ * transaction's own result from older objects. A failed lookup leaves the
+ * check without a snapshot; retries then re-submit instead of guessing.
+ */
+export async function snapshotExisting(client: ExistingClient, check: ExistingCheck): Promise<ExistingCheck> {
+  if (check.kind !== "collection" && check.kind !== "item") return check
+  try {
+    const known = await sameNameIds(client, check)
+    if (!known) return check
+    const knownIds = known.map((entry) => entry.id)
+    if (check.kind === "collection") return { ...check, knownIds }
+
+    const redeemItemId = check.redeemCode ? await lookUpRedeemCode(client, check.collectionId, check.redeemCode) : undefined
+    return {
+      ...check,
+      knownIds: redeemItemId === undefined ? knownIds : [...knownIds, redeemItemId],
+      redeemCodeInUse: redeemItemId !== undefined,
+    }
+  } catch (err) {
+    process.stderr.write(`[fortem-mcp] Could not record existing ${check.kind}s before signing: ${(err as Error).message}\n`)
+    return check
+  }
+}
+
+/** Looks the expected outcome up through the API; returns it if the transaction already landed. */
+export async function findExisting(
+  client: ExistingClient,
+  check: ExistingCheck,
+  signedAt: string
+): Promise<Record<string, unknown> | undefined> {
+  const since = Date.parse(signedAt) - CLOCK_SKEW_MS
+  const createdSince = (createdAt: string) => Date.parse(createdAt) >= since
+
+  // Exactly one same-name object that did not exist before signing; anything else is not proof
+  async function newSameName(check: Extract<ExistingCheck, { kind: "collection" | "item" }>) {
+    if (!check.knownIds) return undefined
+    const known = new Set(check.knownIds)
+    const matches = await sameNameIds(client, check)
+    const fresh = matches?.filter((entry) => !known.has(entry.id) && createdSince(entry.createdAt))
+    return fresh?.length === 1 ? fresh[0].id : undefined
+  }
+
+  switch (check.kind) {
+    case "kiosk": {
+      const { exists } = await client.get("/api/v1/kiosks/exists", kioskExistsResponseSchema)
+      return exists ? { kiosk: true } : undefined
+    }
+
+    case "collection": {
+      const collectionId = await newSameName(check)
+      if (collectionId === undefined) return undefined
+      const header = await client.get(`/api/v1/collections/${collectionId}/header`, collectionHeaderSchema)
+      return { collectionId, objectId: header.objectId, name: header.name }
+    }
+
+    case "item": {
+      if (check.redeemCode && check.knownIds) {
+        const itemId = await lookUpRedeemCode(client, check.collectionId, check.redeemCode)
+        if (itemId !== undefined && !check.knownIds.includes(itemId)) {
+          return { itemId, name: check.name, collectionId: check.collectionId }
+        }
+        // The code was unused before signing, so no item behind it means the mint did not land
+        if (!check.redeemCodeInUse) return undefined
+      }
+      const itemId = await newSameName(check)
+      return itemId === undefined ? undefined : { itemId, name: check.name, collectionId: check.collectionId }
+    }
+
+    case "collectionState": {
+      const header = await client.get(`/api/v1/collections/${check.collectionId}/header`, collectionHeaderSchema)
+      if (check.name !== undefined && header.name !== check.name) return undefined
+      if (check.description !== undefined && header.description !== check.description) return undefined
+      if (check.tokenSymbols && [...header.acceptedTokenSymbols].sort().join() !== [...check.tokenSymbols].sort().join()) {
+        return undefined
+      }
+      if (check.purchaseFeeRate !== undefined && header.purchaseFeeRate !== check.purchaseFeeRate) return undefined
+      if (check.isDnaActivated !== undefined && header.isDnaActivated !== check.isDnaActivated) return undefined
+      return { collectionId: header.id, objectId: header.objectId, name: header.name }
+    }
+
+    case "itemState": {
+      const detail = await client.get(`/api/v1/items/${check.itemId}`, itemDetailSchema)
+      const owner = normalizeSuiAddress(detail.details.ownerAddress)
+      if (check.ownerAddress && owner !== normalizeSuiAddress(check.ownerAddress)) return undefined
+      if (check.status && detail.status !== check.status) return undefined
+      if (check.notStatus && detail.status === check.notStatus) return undefined
+      if (check.price !== undefined && Number(detail.buy.price) !== check.price) return undefined
+      if (check.priceTokenSymbol && detail.buy.priceTokenSymbol !== check.priceTokenSymbol) return undefined
+      return {
+        itemId: detail.id,
+        objectId: detail.details.objectId,
+        status: detail.status,
+        ownerAddress: detail.details.ownerAddress,
+        kioskItemId: detail.kioskItemId,
+      }
+    }
+  }
+}
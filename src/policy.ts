@@ -0,0 +1,209 @@
+import { readFileSync } from "node:fs"
+import { readTransactionHistory } from "./audit.js"
+import type { Signer, SigningContext } from "./signer.js"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface SigningPolicy {
+  // Max cost of a single transaction, per costTokenSymbol (e.g. { USDC: 50 })
+  maxCostPerTx?: Record<string, number>
+  // Max total cost over any rolling 24h window, per costTokenSymbol
+  dailyBudget?: Record<string, number>
+  // Tools allowed to sign, per network. A network without an entry allows every tool.
+  allowedTools?: Record<string, string[]>
+  // Refuse every transaction signature on mainnet
+  mainnetReadOnly?: boolean
+}
+
+export type PolicyRule = "mainnetReadOnly" | "allowedTools" | "maxCostPerTx" | "dailyBudget" | "signingContext"
+
+export class PolicyViolationError extends Error {
+  constructor(
+    readonly rule: PolicyRule,
+    detail: string
+  ) {
+    super(`Transaction blocked by signing policy rule "${rule}": ${detail}`)
+    this.name = "PolicyViolationError"
+  }
+}
+
+export interface SpendEntry {
+  at: number
+  tokenSymbol: string
+  amount: number
+}
+
+/**
+ * Spend signed in the rolling 24h window, per costTokenSymbol. One ledger is
+ * shared by every account and session on a network, so the daily budget is a
+ * single limit rather than one per wallet.
+ */
+export class SpendLedger {
+  private entries: SpendEntry[] = []
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /** Replays the signatures recorded in the audit journal so a restart does not reset the budget. */
+  static async fromJournal(path: string, network: string, now: () => number = Date.now): Promise<SpendLedger> {
+    const ledger = new SpendLedger(now)
+    const cutoff = now() - DAY_MS
+    for (const record of await readTransactionHistory(path, { network })) {
+      if (!record.signedAt) continue
+      const at = Date.parse(record.signedAt)
+      const amount = Number(record.cost)
+      if (at > cutoff && Number.isFinite(amount)) ledger.add({ at, tokenSymbol: record.costTokenSymbol, amount })
+    }
+    return ledger
+  }
+
+  add(entry: SpendEntry): SpendEntry {
+    this.entries.push(entry)
+    return entry
+  }
+
+  remove(entry: SpendEntry): void {
+    const index = this.entries.indexOf(entry)
+    if (index !== -1) this.entries.splice(index, 1)
+  }
+
+  totals(): Record<string, number> {
+    const cutoff = this.now() - DAY_MS
+    this.entries = this.entries.filter((entry) => entry.at > cutoff)
+
+    const totals: Record<string, number> = {}
+    for (const entry of this.entries) {
+      totals[entry.tokenSymbol] = (totals[entry.tokenSymbol] ?? 0) + entry.amount
+    }
+    return totals
+  }
+}
+
+function parseSymbolAmounts(value: string, name: string): Record<string, number> {
+  const result: Record<string, number> = {}
+  for (const pair of value.split(",")) {
+    const [symbol, amount] = pair.split("=").map((part) => part.trim())
+    const parsed = Number(amount)
+    if (!symbol || !Number.isFinite(parsed)) {
+      throw new Error(`${name} must look like "USDC=50,SUI=2", got: "${value}"`)
+    }
+    result[symbol] = parsed
+  }
+  return result
+}
+
+/**
+ * Builds the signing policy from FORTEM_POLICY_FILE (JSON) and env overrides:
+ * FORTEM_MAX_TX_COST, FORTEM_DAILY_BUDGET ("USDC=50,SUI=2"),
+ * FORTEM_ALLOWED_TOOLS ("mint_item,list_item", applies to the current network)
+ * and FORTEM_MAINNET_READ_ONLY ("true").
+ */
+export function loadSigningPolicy(
+  env: NodeJS.ProcessEnv,
+  network: string
+): SigningPolicy {
+  const policy: SigningPolicy = env.FORTEM_POLICY_FILE
+    ? JSON.parse(readFileSync(env.FORTEM_POLICY_FILE, "utf8"))
+    : {}
+
+  if (env.FORTEM_MAX_TX_COST) {
+    policy.maxCostPerTx = parseSymbolAmounts(env.FORTEM_MAX_TX_COST, "FORTEM_MAX_TX_COST")
+  }
+  if (env.FORTEM_DAILY_BUDGET) {
+    policy.dailyBudget = parseSymbolAmounts(env.FORTEM_DAILY_BUDGET, "FORTEM_DAILY_BUDGET")
+  }
+  if (env.FORTEM_ALLOWED_TOOLS) {
+    policy.allowedTools = {
+      ...policy.allowedTools,
+      [network]: env.FORTEM_ALLOWED_TOOLS.split(",").map((tool) => tool.trim()).filter(Boolean),
+    }
+  }
+  if (env.FORTEM_MAINNET_READ_ONLY) {
+    policy.mainnetReadOnly = env.FORTEM_MAINNET_READ_ONLY === "true"
+  }
+
+  return policy
+}
+
+export class PolicySigner implements Signer {
+  constructor(
+    private readonly inner: Signer,
+    private readonly policy: SigningPolicy,
+    private readonly network: string,
+    private readonly ledger = new SpendLedger(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  getAddress(): string {
+    return this.inner.getAddress()
+  }
+
+  async signTransaction(txBytes: string, context?: SigningContext): Promise<string> {
+    // Reserved before the first await so concurrent signatures cannot both pass the budget
+    const spend = this.check(context)
+    try {
+      return await this.inner.signTransaction(txBytes, context)
+    } catch (err) {
+      if (spend) this.ledger.remove(spend)
+      throw err
+    }
+  }
+
+  async signPersonalMessage(messageBytes: Uint8Array): Promise<{ bytes: string; signature: string }> {
+    return this.inner.signPersonalMessage(messageBytes)
+  }
+
+  // Spend in the rolling 24h window, per costTokenSymbol, across every account sharing the ledger
+  getDailySpend(): Record<string, number> {
+    return this.ledger.totals()
+  }
+
+  private check(context?: SigningContext): SpendEntry | null {
+    if (this.policy.mainnetReadOnly && this.network === "mainnet") {
+      throw new PolicyViolationError("mainnetReadOnly", "mainnet is configured as read-only; no transactions may be signed.")
+    }
+
+    if (!context) {
+      throw new PolicyViolationError("signingContext", "the transaction did not say which tool prepared it, so the policy cannot be evaluated.")
+    }
+
+    const allowed = this.policy.allowedTools?.[this.network]
+    if (allowed && !allowed.includes(context.tool)) {
+      throw new PolicyViolationError(
+        "allowedTools",
+        `"${context.tool}" may not sign on ${this.network}. Allowed: ${allowed.join(", ") || "(none)"}.`
+      )
+    }
+
+    const { costTokenSymbol: tokenSymbol } = context.prepared
+    const maxCost = this.policy.maxCostPerTx?.[tokenSymbol]
+    const dailyBudget = this.policy.dailyBudget?.[tokenSymbol]
+    if (maxCost === undefined && dailyBudget === undefined) return null
+
+    const amount = Number(context.prepared.cost)
+    if (!Number.isFinite(amount)) {
+      throw new PolicyViolationError(
+        maxCost !== undefined ? "maxCostPerTx" : "dailyBudget",
+        `cannot enforce the ${tokenSymbol} limit because the prepared cost "${context.prepared.cost}" is not a number.`
+      )
+    }
+
+    if (maxCost !== undefined && amount > maxCost) {
+      throw new PolicyViolationError(
+        "maxCostPerTx",
+        `${context.tool} costs ${amount} ${tokenSymbol}, above the per-transaction limit of ${maxCost} ${tokenSymbol}.`
+      )
+    }
+
+    if (dailyBudget !== undefined) {
+      const spentToday = this.getDailySpend()[tokenSymbol] ?? 0
+      if (spentToday + amount > dailyBudget) {
+        throw new PolicyViolationError(
+          "dailyBudget",
+          `${context.tool} costs ${amount} ${tokenSymbol}, but ${spentToday} ${tokenSymbol} was already signed in the last 24h (budget ${dailyBudget} ${tokenSymbol}).`
+        )
+      }
+    }
+
+    return this.ledger.add({ at: this.now(), tokenSymbol, amount })
+  }
+}
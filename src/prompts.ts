@@ -0,0 +1,139 @@
+import { z } from "zod"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+
+function userMessage(text: string) {
+  return {
+    messages: [
+      {
+        role: "user" as const,
+        content: { type: "text" as const, text: text.trim() },
+      },
+    ],
+  }
+}
+
+function networkNote(network: string): string {
+  return network === "mainnet"
+    ? "This server is connected to **mainnet** — transactions use real assets. Preview every signing step with dryRun=true and show me the cost before calling confirm_transaction."
+    : "This server is connected to **testnet** (https://testnet.fortem.gg) — nothing here costs real assets."
+}
+
+export function registerPrompts(server: McpServer, network: string): void {
+  // ──────────────────────────────────────────────
+  // launch_collection_drop
+  // ──────────────────────────────────────────────
+  server.prompt(
+    "launch_collection_drop",
+    "Plan and run a new NFT drop: create a collection, upload art, mint items and list them for sale.",
+    {
+      collectionName: z.string().describe("Name of the new collection (max 40 characters)"),
+      description: z.string().optional().describe("Collection description"),
+      manifestPath: z.string().optional().describe("CSV/JSON manifest for bulk_mint_items, if you have one"),
+      price: z.string().optional().describe("Selling price per item, e.g. '10'"),
+      tokenSymbol: z.enum(["SUI", "USDC", "USDT"]).optional().describe("Payment token (default: USDC)"),
+    },
+    ({ collectionName, description, manifestPath, price, tokenSymbol }) => {
+      const token = tokenSymbol ?? "USDC"
+      return userMessage(`
+I want to launch a new Fortem NFT drop called "${collectionName}".
+
+${networkNote(network)}
+
+Follow this plan step by step and report back after each step:
+
+1. **Collection art** — ask me for a logo and background image path, then upload them with \`upload_image\` (type \`collection_logo\` / \`collection_background\`).
+2. **Create the collection** — call \`create_collection\` with name "${collectionName}"${description ? `, description "${description}"` : " and a description we agree on"}, accepted token ${token}, and the uploaded image paths. Note the returned collectionId.
+3. **Mint the items** — ${manifestPath
+        ? `run \`bulk_mint_items\` with manifestPath "${manifestPath}" and the new collectionId. If any rows fail or are unconfirmed, show me the report before retrying.`
+        : "ask me for each item's name, description, quantity, redeem code and image; upload images with `upload_image` (type `item`) and mint with `mint_item`. For more than a few items, suggest a manifest for `bulk_mint_items`."}
+4. **Kiosk** — call \`ensure_kiosk\` so the items can be listed.
+5. **List for sale** — ${price
+        ? `list every minted item with \`list_item\` at ${price} ${token}.`
+        : `ask me for a price, then list every minted item with \`list_item\` in ${token}.`}
+6. **Summary** — use \`get_my_items\` with the collection filter and give me a table of item ID, name, status and price.
+`)
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // list_inventory_for_sale
+  // ──────────────────────────────────────────────
+  server.prompt(
+    "list_inventory_for_sale",
+    "List your unlisted (MINTED) items for sale at a given price.",
+    {
+      price: z.string().describe("Selling price per item, e.g. '10'"),
+      tokenSymbol: z.enum(["SUI", "USDC", "USDT"]).optional().describe("Payment token (default: USDC)"),
+      collectionId: z.string().optional().describe("Only list items from this collection ID"),
+      enableTrading: z.enum(["true", "false"]).optional().describe("Also accept swap offers (default: false)"),
+    },
+    ({ price, tokenSymbol, collectionId, enableTrading }) => {
+      const token = tokenSymbol ?? "USDC"
+      return userMessage(`
+List my unlisted Fortem items for sale at ${price} ${token} each.
+
+${networkNote(network)}
+
+1. Call \`get_my_items\` with status \`MINTED\`${collectionId ? ` and collectionIds [${collectionId}]` : ""} and all=true.
+2. Show me the items you found and wait for my go-ahead before listing anything.
+3. Call \`ensure_kiosk\` once.
+4. For each item I approve, call \`list_item\` with sellingPrice ${price}, sellingTokenSymbol ${token} and enableTrading ${enableTrading ?? "false"}.
+5. Finish with a table of item ID, name, kioskItemId and price, and list any items that failed with the error.
+`)
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // integrate_unity_game
+  // ──────────────────────────────────────────────
+  server.prompt(
+    "integrate_unity_game",
+    "Walk through integrating Fortem into a game with the Unity SDK, JS SDK or direct API.",
+    {
+      gameName: z.string().describe("Name of your game"),
+      sdk: z.enum(["unity", "js", "api"]).optional().describe("Integration path: unity, js or api (default: unity)"),
+      features: z.string().optional().describe("What the game should do with Fortem, e.g. 'member check, item rewards, redeem codes'"),
+    },
+    ({ gameName, sdk, features }) => {
+      const option = sdk === "js" ? "2" : sdk === "api" ? "1" : "3"
+      const label = sdk === "js" ? "JS SDK" : sdk === "api" ? "Direct Developer API" : "Unity SDK"
+      return userMessage(`
+Help me integrate Fortem into my game "${gameName}" using the ${label}.
+
+This server is connected to **${network}**; use the ${network} base URL in every code sample.
+
+1. Call \`get_developer_guide\` with option "${option}" and summarize the setup steps for my project.
+2. Call \`get_my_api_key\` and show me where the key goes (never hardcode it in client builds — suggest a config or backend proxy).
+3. Write a minimal code sample that checks whether a player's wallet is a Fortem member (the same check as \`verify_member\`).
+4. ${features
+        ? `Design the integration for these features: ${features}. Map each one to the Fortem endpoints or tools involved (e.g. \`transfer_item\` for rewards, \`check_redeem_code\` for codes).`
+        : "Suggest common features (member gating, item rewards via `transfer_item`, redeem codes via `check_redeem_code`) and ask me which ones I want."}
+5. End with a checklist I can follow to ship the integration.
+`)
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // audit_my_listings
+  // ──────────────────────────────────────────────
+  server.prompt(
+    "audit_my_listings",
+    "Review all of your current listings and pending offers, and suggest price or listing changes.",
+    {
+      collectionId: z.string().optional().describe("Only audit listings from this collection ID"),
+    },
+    ({ collectionId }) => userMessage(`
+Audit my current Fortem listings${collectionId ? ` in collection ${collectionId}` : ""}.
+
+${networkNote(network)}
+
+1. Call \`get_my_items\` with status \`KIOSK_LISTED\`${collectionId ? ` and collectionIds [${collectionId}]` : ""} and all=true.
+2. Call \`get_my_offers\` with direction \`incoming\` and status \`PENDING\`.
+3. Give me a table of item ID, name, price, token, trade volume and whether swaps are enabled, and flag:
+   - items priced far above or below similar items in the same collection
+   - listings with pending offers I have not answered
+   - items listed in a token different from the rest of their collection
+4. Suggest concrete changes (\`update_listing\`, \`unlist_item\`, \`accept_offer\` / \`reject_offer\`) but do not run any of them until I confirm.
+`)
+  )
+}
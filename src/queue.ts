@@ -0,0 +1,111 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js"
+
+export interface QueueUpdate {
+  // 1 = next to start; 0 = running
+  position: number
+  waitedMs: number
+}
+
+export type QueueProgress = (update: QueueUpdate) => void
+
+interface Waiter {
+  enqueuedAt: number
+  start: () => void
+  onProgress?: QueueProgress
+}
+
+/**
+ * Runs at most `concurrency` tasks at a time, first come first served.
+ * Transactions from one wallet go through it so parallel tool calls do not
+ * prepare and sign against the same gas and payment coins.
+ */
+export class TransactionQueue {
+  private running = 0
+  private readonly waiting: Waiter[] = []
+
+  constructor(readonly concurrency = 1) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Transaction concurrency must be a positive integer, got: ${concurrency}`)
+    }
+  }
+
+  get pending(): number {
+    return this.waiting.length
+  }
+
+  async run<T>(task: () => Promise<T>, onProgress?: QueueProgress, signal?: AbortSignal): Promise<T> {
+    const enqueuedAt = Date.now()
+    if (this.running >= this.concurrency) {
+      await new Promise<void>((resolve, reject) => {
+        const waiter: Waiter = {
+          enqueuedAt,
+          onProgress,
+          start: () => {
+            signal?.removeEventListener("abort", abort)
+            resolve()
+          },
+        }
+        // A cancelled request gives up its place instead of running later
+        const abort = () => {
+          this.waiting.splice(this.waiting.indexOf(waiter), 1)
+          this.reportPositions()
+          reject(new Error("Cancelled while waiting for earlier transactions"))
+        }
+        if (signal?.aborted) return reject(new Error("Cancelled while waiting for earlier transactions"))
+        signal?.addEventListener("abort", abort, { once: true })
+
+        this.waiting.push(waiter)
+        onProgress?.({ position: this.waiting.length, waitedMs: 0 })
+      })
+    } else {
+      this.running++
+    }
+
+    onProgress?.({ position: 0, waitedMs: Date.now() - enqueuedAt })
+    try {
+      return await task()
+    } finally {
+      // The slot passes straight to the next waiter so a new caller cannot jump the queue
+      const next = this.waiting.shift()
+      if (next) next.start()
+      else this.running--
+      this.reportPositions()
+    }
+  }
+
+  private reportPositions(): void {
+    const now = Date.now()
+    this.waiting.forEach((waiter, index) => {
+      waiter.onProgress?.({ position: index + 1, waitedMs: now - waiter.enqueuedAt })
+    })
+  }
+}
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>
+
+// One reporter per tool call: a call that queues several transactions shares one progressToken
+const reporters = new WeakMap<ToolExtra, QueueProgress>()
+
+/** Reports queue position and wait time as MCP progress notifications, if the client asked for them. */
+export function queueProgress(extra: ToolExtra): QueueProgress | undefined {
+  const progressToken = extra._meta?.progressToken
+  if (progressToken === undefined) return undefined
+
+  const existing = reporters.get(extra)
+  if (existing) return existing
+
+  // Progress must increase with every notification, across all of the call's transactions
+  let progress = 0
+  const report: QueueProgress = ({ position, waitedMs }) => {
+    const waited = `${(waitedMs / 1000).toFixed(1)}s`
+    const message = position === 0
+      ? `Started after waiting ${waited} in the transaction queue`
+      : `Queued behind earlier transactions: position ${position}, waited ${waited}`
+    void extra
+      .sendNotification({ method: "notifications/progress", params: { progressToken, progress: ++progress, message } })
+      .catch(() => {})
+  }
+  reporters.set(extra, report)
+  return report
+}
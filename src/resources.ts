@@ -0,0 +1,248 @@
+import { createHash } from "node:crypto"
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js"
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js"
+import type { FortemClient } from "./client.js"
+import type { AccountRegistry } from "./account.js"
+import {
+  collectionHeaderSchema,
+  collectionListItemSchema,
+  itemDetailSchema,
+  itemSearchItemSchema,
+  userProfileSchema,
+} from "./schemas.js"
+import { readLimited } from "./upload.js"
+
+// How often subscribed resources are re-read to detect changes
+const DEFAULT_REFRESH_MS = 60 * 1000
+// Cap for the fortem://collections listing
+const MAX_COLLECTIONS = 1000
+// A stalled gateway must not hold up the read or the subscription refresh
+const IMAGE_TIMEOUT_MS = 30_000
+
+function jsonContents(uri: string, data: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) }],
+  }
+}
+
+function imageUrl(itemImage: string): string {
+  if (/^https?:\/\//.test(itemImage)) return itemImage
+  const gateway = process.env.FORTEM_IPFS_GATEWAY ?? "https://ipfs.io/ipfs/"
+  return `${gateway.replace(/\/?$/, "/")}${itemImage}`
+}
+
+/**
+ * Tracks what each resource last looked like and which URIs clients subscribed to.
+ * Reads and periodic refreshes both feed observe(); a changed, subscribed resource
+ * triggers a resources/updated notification.
+ */
+class ResourceWatcher {
+  private readonly hashes = new Map<string, string>()
+  private readonly subscribed = new Set<string>()
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly read: (uri: string) => Promise<ReadResourceResult>,
+    private readonly refreshMs: number
+  ) {}
+
+  subscribe(uri: string): void {
+    this.subscribed.add(uri)
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.refresh(), this.refreshMs)
+      this.timer.unref()
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscribed.delete(uri)
+    if (this.subscribed.size === 0 && this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Once the session's server is closed nobody is left to notify
+  close(): void {
+    this.subscribed.clear()
+    this.hashes.clear()
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async observe(uri: string, result: ReadResourceResult): Promise<ReadResourceResult> {
+    const hash = createHash("sha256").update(JSON.stringify(result.contents)).digest("hex")
+    const previous = this.hashes.get(uri)
+    this.hashes.set(uri, hash)
+
+    if (previous !== undefined && previous !== hash && this.subscribed.has(uri)) {
+      await this.server.server.sendResourceUpdated({ uri })
+    }
+    return result
+  }
+
+  private async refresh(): Promise<void> {
+    for (const uri of this.subscribed) {
+      try {
+        await this.observe(uri, await this.read(uri))
+      } catch (err) {
+        process.stderr.write(`[fortem-mcp] Resource refresh failed for ${uri}: ${(err as Error).message}\n`)
+      }
+    }
+  }
+}
+
+export function registerResources(server: McpServer, accounts: AccountRegistry): void {
+  // Resources always reflect the session's active account at read time
+  const client = (): FortemClient => accounts.get().client
+
+  const readers: Array<[RegExp, (match: RegExpMatchArray, uri: string) => Promise<ReadResourceResult>]> = [
+    [/^fortem:\/\/profile$/, async (_, uri) =>
+      jsonContents(uri, await client().get("/api/v1/users/me", userProfileSchema))],
+    [/^fortem:\/\/collections$/, async (_, uri) => {
+      const { data, totalItems, truncated } = await client().getAllPages(
+        "/api/v1/collections",
+        new URLSearchParams(),
+        MAX_COLLECTIONS,
+        collectionListItemSchema
+      )
+      return jsonContents(uri, { collections: data, totalItems, truncated })
+    }],
+    [/^fortem:\/\/collections\/(\d+)$/, async ([, id], uri) =>
+      jsonContents(uri, await client().get(`/api/v1/collections/${id}/header`, collectionHeaderSchema))],
+    [/^fortem:\/\/items\/(\d+)$/, async ([, id], uri) =>
+      jsonContents(uri, await client().get(`/api/v1/items/${id}`, itemDetailSchema))],
+    [/^fortem:\/\/items\/(\d+)\/image$/, async ([, id], uri) => {
+      const item = await client().get(`/api/v1/items/${id}`, itemDetailSchema)
+      if (!item.itemImage) throw new Error(`Item ${id} has no image`)
+      const res = await fetch(imageUrl(item.itemImage), { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) })
+      if (!res.ok) {
+        await res.body?.cancel()
+        throw new Error(`Failed to download image for item ${id}: HTTP ${res.status}`)
+      }
+      // Item images are capped at upload, so anything larger is not one
+      const blob = (await readLimited(res.body, "item")).toString("base64")
+      const mimeType = res.headers.get("content-type") ?? "application/octet-stream"
+      return { contents: [{ uri, mimeType, blob }] }
+    }],
+  ]
+
+  async function read(uri: string): Promise<ReadResourceResult> {
+    for (const [pattern, reader] of readers) {
+      const match = uri.match(pattern)
+      if (match) return reader(match, uri)
+    }
+    throw new Error(`Unknown Fortem resource: ${uri}`)
+  }
+
+  const watcher = new ResourceWatcher(
+    server,
+    read,
+    Number(process.env.FORTEM_RESOURCE_REFRESH_MS ?? DEFAULT_REFRESH_MS)
+  )
+  const readAndObserve = async (uri: URL) => watcher.observe(uri.href, await read(uri.href))
+
+  // ──────────────────────────────────────────────
+  // fortem://profile
+  // ──────────────────────────────────────────────
+  server.resource(
+    "profile",
+    "fortem://profile",
+    { description: "Your Fortem account profile", mimeType: "application/json" },
+    readAndObserve
+  )
+
+  // ──────────────────────────────────────────────
+  // fortem://collections
+  // ──────────────────────────────────────────────
+  server.resource(
+    "collections",
+    "fortem://collections",
+    { description: "All of your NFT collections", mimeType: "application/json" },
+    readAndObserve
+  )
+
+  // ──────────────────────────────────────────────
+  // fortem://collections/{id}
+  // ──────────────────────────────────────────────
+  server.resource(
+    "collection",
+    new ResourceTemplate("fortem://collections/{id}", {
+      list: async () => {
+        const params = new URLSearchParams({ skip: "0", take: "100" })
+        const page = await client().getPage("/api/v1/collections", params, collectionListItemSchema)
+        return {
+          resources: page.data.map((collection) => ({
+            uri: `fortem://collections/${collection.id}`,
+            name: collection.name,
+            description: collection.description,
+            mimeType: "application/json",
+          })),
+        }
+      },
+    }),
+    { description: "Collection detail (same data as get_collection_detail)", mimeType: "application/json" },
+    readAndObserve
+  )
+
+  // ──────────────────────────────────────────────
+  // fortem://items/{id}
+  // ──────────────────────────────────────────────
+  server.resource(
+    "item",
+    new ResourceTemplate("fortem://items/{id}", {
+      list: async () => {
+        const params = new URLSearchParams({ skip: "0", take: "100" })
+        const page = await client().getPage("/api/v1/items", params, itemSearchItemSchema)
+        return {
+          resources: page.data.map((item) => ({
+            uri: `fortem://items/${item.id}`,
+            name: item.name,
+            description: `Item in ${item.collection.name}`,
+            mimeType: "application/json",
+          })),
+        }
+      },
+    }),
+    { description: "Item detail (same data as get_item_detail)", mimeType: "application/json" },
+    readAndObserve
+  )
+
+  // ──────────────────────────────────────────────
+  // fortem://items/{id}/image
+  // ──────────────────────────────────────────────
+  server.resource(
+    "item-image",
+    new ResourceTemplate("fortem://items/{id}/image", { list: undefined }),
+    { description: "Item image as binary data (downloaded from IPFS)" },
+    readAndObserve
+  )
+
+  // ── Subscriptions ────────────────────────────────
+  server.server.registerCapabilities({ resources: { subscribe: true } })
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params
+    // Read once so the first refresh has something to compare against
+    await watcher.observe(uri, await read(uri))
+    watcher.subscribe(uri)
+    return {}
+  })
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    watcher.unsubscribe(request.params.uri)
+    return {}
+  })
+
+  // In HTTP mode sessions come and go; a closed one must stop polling the API
+  const onclose = server.server.onclose
+  server.server.onclose = () => {
+    watcher.close()
+    onclose?.()
+  }
+}
@@ -0,0 +1,251 @@
+import { z } from "zod"
+
+// Fortem API response shapes, checked at runtime by FortemClient. Fields the
+// API adds later pass through untouched; missing or mistyped fields fail loudly.
+function apiObject<S extends z.ZodRawShape>(shape: S) {
+  return z.object(shape).passthrough()
+}
+
+export const attributeSchema = apiObject({ name: z.string(), value: z.string() })
+
+// prepare → execute pattern common response
+export const txResponseSchema = apiObject({
+  txId: z.string(),
+  txBytes: z.string(),
+  cost: z.string(),
+  costTokenSymbol: z.string(),
+  gasBudget: z.number(),
+})
+
+// ── Auth / account ─────────────────────────────────
+
+export const checkWalletResponseSchema = apiObject({
+  exists: z.boolean(),
+  walletAddress: z.string(),
+})
+export type CheckWalletResponse = z.infer<typeof checkWalletResponseSchema>
+
+export const nonceResponseSchema = apiObject({ nonce: z.string() })
+
+export const loginResponseSchema = apiObject({
+  accessToken: z.string(),
+  nickname: z.string().nullish(),
+  profileImage: z.string().nullish(),
+})
+
+export const userProfileSchema = apiObject({
+  id: z.number(),
+  walletAddress: z.string(),
+  nickname: z.string(),
+  profileImage: z.string().nullish(),
+  email: z.string().nullish(),
+  createdAt: z.string(),
+})
+export type UserProfile = z.infer<typeof userProfileSchema>
+
+export const apiKeyResponseSchema = apiObject({ apiKey: z.string() })
+
+// ── Collections ────────────────────────────────────
+
+export const collectionListItemSchema = apiObject({
+  id: z.number(),
+  objectId: z.string(),
+  name: z.string(),
+  description: z.string(),
+  backgroundImage: z.string().nullish(),
+  logoImage: z.string().nullish(),
+  tradeVolume: z.string(),
+  itemCount: z.number(),
+  createdAt: z.string(),
+})
+export type CollectionListItem = z.infer<typeof collectionListItemSchema>
+
+export const collectionHeaderSchema = collectionListItemSchema.extend({
+  isDnaActivated: z.boolean(),
+  acceptedTokenSymbols: z.array(z.string()),
+  purchaseFeeRate: z.number(),
+})
+export type CollectionHeader = z.infer<typeof collectionHeaderSchema>
+
+export const createCollectionResponseSchema = apiObject({
+  collectionId: z.number(),
+  objectId: z.string(),
+  name: z.string(),
+  description: z.string(),
+  logoImage: z.string().nullish(),
+  backgroundImage: z.string().nullish(),
+  tokenSymbols: z.array(z.string()),
+  isDnaActivated: z.boolean(),
+  purchaseFeeRate: z.number(),
+})
+export type CreateCollectionResponse = z.infer<typeof createCollectionResponseSchema>
+
+export const updateCollectionResponseSchema = apiObject({
+  collectionId: z.number(),
+  objectId: z.string(),
+})
+export type UpdateCollectionResponse = z.infer<typeof updateCollectionResponseSchema>
+
+// ── Items ──────────────────────────────────────────
+
+export const itemSearchItemSchema = apiObject({
+  id: z.number(),
+  nftNumber: z.number(),
+  name: z.string(),
+  description: z.string(),
+  // mint_item's image is optional, so items may have none
+  itemImage: z.string().nullish(),
+  quantity: z.number(),
+  tradeVolume: z.string(),
+  status: z.string(),
+  createdAt: z.string(),
+  collection: apiObject({ id: z.number(), name: z.string() }),
+  kiosk: apiObject({
+    price: z.string(),
+    priceTokenSymbol: z.string(),
+    isPurchasePrice: z.boolean(),
+    isItemSwap: z.boolean(),
+  }).nullish(),
+})
+export type ItemSearchItem = z.infer<typeof itemSearchItemSchema>
+
+export const itemDetailSchema = apiObject({
+  id: z.number(),
+  nftNumber: z.number(),
+  name: z.string(),
+  itemImage: z.string().nullish(),
+  quantity: z.number(),
+  status: z.string(),
+  collection: apiObject({ id: z.number(), name: z.string(), objectId: z.string() }),
+  redeemUrl: z.string().nullish(),
+  kioskItemId: z.number().nullish(),
+  details: apiObject({
+    objectId: z.string(),
+    ownerAddress: z.string(),
+    description: z.string(),
+    attributes: z.array(attributeSchema),
+  }),
+  buy: apiObject({
+    price: z.string(),
+    priceUsd: z.string(),
+    priceTokenSymbol: z.string(),
+  }),
+})
+export type ItemDetail = z.infer<typeof itemDetailSchema>
+
+export const uploadItemImageResponseSchema = apiObject({ itemImage: z.string() })
+
+export const mintItemResponseSchema = apiObject({
+  itemId: z.number(),
+  objectId: z.string(),
+  name: z.string(),
+  description: z.string(),
+  collectionId: z.number(),
+  userId: z.number(),
+  nftNumber: z.number(),
+  itemImage: z.string().nullish(),
+  quantity: z.number(),
+  redeemCode: z.string(),
+  redeemUrl: z.string().nullish(),
+})
+export type MintItemResponse = z.infer<typeof mintItemResponseSchema>
+
+export const transferItemResponseSchema = apiObject({
+  itemId: z.number(),
+  objectId: z.string(),
+  recipientAddress: z.string(),
+  transferredAt: z.string(),
+})
+export type TransferItemResponse = z.infer<typeof transferItemResponseSchema>
+
+// ── Kiosk / market ─────────────────────────────────
+
+export const kioskExistsResponseSchema = apiObject({ exists: z.boolean() })
+
+export const createKioskResponseSchema = apiObject({
+  kioskId: z.number(),
+  objectId: z.string(),
+})
+export type CreateKioskResponse = z.infer<typeof createKioskResponseSchema>
+
+export const listItemResponseSchema = apiObject({
+  itemId: z.number(),
+  kioskItemId: z.number(),
+  sellingPrice: z.number(),
+  sellingTokenSymbol: z.string(),
+  enableTrading: z.boolean(),
+  listedAt: z.string(),
+})
+export type ListItemResponse = z.infer<typeof listItemResponseSchema>
+
+export const unlistItemResponseSchema = apiObject({
+  itemId: z.number(),
+  kioskItemId: z.number(),
+  unlistedAt: z.string(),
+})
+export type UnlistItemResponse = z.infer<typeof unlistItemResponseSchema>
+
+export const updateListingResponseSchema = apiObject({
+  itemId: z.number(),
+  kioskItemId: z.number(),
+  sellingPrice: z.number(),
+  sellingTokenSymbol: z.string(),
+  enableTrading: z.boolean(),
+  updatedAt: z.string(),
+})
+export type UpdateListingResponse = z.infer<typeof updateListingResponseSchema>
+
+export const buyItemResponseSchema = apiObject({
+  itemId: z.number(),
+  objectId: z.string(),
+  price: z.string(),
+  priceTokenSymbol: z.string(),
+  purchasedAt: z.string(),
+})
+export type BuyItemResponse = z.infer<typeof buyItemResponseSchema>
+
+// ── Offers ─────────────────────────────────────────
+
+const offerItemSchema = apiObject({
+  id: z.number(),
+  name: z.string(),
+  itemImage: z.string().nullish(),
+  collection: apiObject({ id: z.number(), name: z.string() }),
+})
+
+export const offerSchema = apiObject({
+  id: z.number(),
+  status: z.string(),
+  offeredItem: offerItemSchema,
+  targetItem: offerItemSchema,
+  offererAddress: z.string(),
+  receiverAddress: z.string(),
+  createdAt: z.string(),
+})
+export type Offer = z.infer<typeof offerSchema>
+
+export const offerResponseSchema = apiObject({
+  offerId: z.number(),
+  status: z.string(),
+  offeredItemId: z.number(),
+  targetItemId: z.number(),
+})
+export type OfferResponse = z.infer<typeof offerResponseSchema>
+
+// ── Redeem ─────────────────────────────────────────
+
+export const redeemItemResponseSchema = apiObject({
+  itemId: z.number(),
+  objectId: z.string(),
+  status: z.string(),
+  redeemUrl: z.string().nullish(),
+  redeemedAt: z.string(),
+})
+export type RedeemItemResponse = z.infer<typeof redeemItemResponseSchema>
+
+export const checkRedeemCodeResponseSchema = apiObject({
+  valid: z.boolean(),
+  itemId: z.number().nullish(),
+  redeemed: z.boolean(),
+})
+export type CheckRedeemCodeResponse = z.infer<typeof checkRedeemCodeResponseSchema>
@@ -0,0 +1,49 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { AccountRegistry } from "./account.js"
+import { mapToolErrors } from "./errors.js"
+import { registerAccountTools } from "./tools/account.js"
+import { registerCollectionTools } from "./tools/collection.js"
+import { registerItemTools } from "./tools/item.js"
+import { registerKioskTools } from "./tools/kiosk.js"
+import { registerMarketTools } from "./tools/market.js"
+import { registerOfferTools } from "./tools/offer.js"
+import { registerRedeemTools } from "./tools/redeem.js"
+import { registerInventoryTools } from "./tools/inventory.js"
+import { registerDeveloperTools } from "./tools/developer.js"
+import { registerTransactionTools } from "./tools/transaction.js"
+import { registerResources } from "./resources.js"
+import { registerPrompts } from "./prompts.js"
+
+export const TOOL_SUMMARY =
+  "[Personal] list_accounts, switch_account, create_collection, update_collection, get_my_collections, get_collection_detail, upload_image, mint_item, bulk_mint_items, transfer_item, get_my_items, get_item_detail, ensure_kiosk, list_item, unlist_item, update_listing, buy_item, make_swap_offer, get_my_offers, accept_offer, reject_offer, cancel_offer, redeem_item, get_redeem_status, sync_inventory, query_inventory, confirm_transaction, get_transaction_history, get_pending_transactions, retry_pending_transaction | [Developer] get_developer_guide, get_my_api_key, verify_member, get_my_profile, check_redeem_code"
+export const RESOURCE_SUMMARY =
+  "fortem://profile, fortem://collections, fortem://collections/{id}, fortem://items/{id}, fortem://items/{id}/image"
+export const PROMPT_SUMMARY =
+  "launch_collection_drop, list_inventory_for_sale, integrate_unity_game, audit_my_listings"
+
+// One McpServer per transport connection; accounts (and their logins) may be shared
+// between them, but each server switches its active account independently
+export function createFortemServer(sharedAccounts: AccountRegistry, network: string): McpServer {
+  const server = new McpServer({
+    name: "fortem-mcp",
+    version: "0.1.2",
+  })
+
+  mapToolErrors(server)
+
+  const accounts = sharedAccounts.fork()
+  registerAccountTools(server, accounts)
+  registerCollectionTools(server, accounts)
+  registerItemTools(server, accounts)
+  registerKioskTools(server, accounts)
+  registerMarketTools(server, accounts)
+  registerOfferTools(server, accounts)
+  registerRedeemTools(server, accounts)
+  registerInventoryTools(server, accounts, network)
+  registerTransactionTools(server, accounts)
+  registerDeveloperTools(server, accounts)
+  registerResources(server, accounts)
+  registerPrompts(server, network)
+
+  return server
+}
@@ -1,13 +1,23 @@
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519"
+import type { Keypair } from "@mysten/sui/cryptography"
+import type { TxResponse } from "./types.js"
+
+// What is being signed and why — lets wrapping signers (e.g. PolicySigner) decide
+export interface SigningContext {
+  tool: string
+  prepared: TxResponse
+  // Addresses other than the signer that may receive objects (e.g. transfer_item)
+  recipients?: string[]
+}
 
 export interface Signer {
   getAddress(): string
-  signTransaction(txBytes: string): Promise<string>
+  signTransaction(txBytes: string, context?: SigningContext): Promise<string>
   signPersonalMessage(messageBytes: Uint8Array): Promise<{ bytes: string; signature: string }>
 }
 
-export class Ed25519Signer implements Signer {
-  constructor(private readonly keypair: Ed25519Keypair) {}
+// Signs with any Sui keypair (Ed25519, Secp256k1 or Secp256r1)
+export class KeypairSigner implements Signer {
+  constructor(private readonly keypair: Keypair) {}
 
   getAddress(): string {
     return this.keypair.getPublicKey().toSuiAddress()
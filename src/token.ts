@@ -0,0 +1,54 @@
+import { chmod, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { getDataDir } from "./paths.js"
+
+interface CachedToken {
+  accessToken: string
+  savedAt: string
+}
+
+export function tokenCachePath(network: string, walletAddress: string): string {
+  return join(getDataDir(), "tokens", `${network}-${walletAddress}.json`)
+}
+
+/** Reads the JWT `exp` claim as epoch milliseconds; undefined if the token has none. */
+export function decodeTokenExpiry(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1] ?? "", "base64url").toString("utf8")) as {
+      exp?: unknown
+    }
+    return typeof payload.exp === "number" ? payload.exp * 1000 : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export async function loadCachedToken(network: string, walletAddress: string): Promise<string | undefined> {
+  try {
+    const cached = JSON.parse(await readFile(tokenCachePath(network, walletAddress), "utf8")) as CachedToken
+    return cached.accessToken
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      process.stderr.write(`[fortem-mcp] Ignoring unreadable token cache: ${(err as Error).message}\n`)
+    }
+    return undefined
+  }
+}
+
+export async function saveCachedToken(network: string, walletAddress: string, accessToken: string): Promise<void> {
+  const dir = join(getDataDir(), "tokens")
+  const path = tokenCachePath(network, walletAddress)
+  await mkdir(dir, { recursive: true, mode: 0o700 })
+  const cached: CachedToken = { accessToken, savedAt: new Date().toISOString() }
+  // The token is a bearer credential: owner read/write only, written then renamed
+  await writeFile(`${path}.tmp`, JSON.stringify(cached, null, 2), { mode: 0o600 })
+  await chmod(`${path}.tmp`, 0o600)
+  await rename(`${path}.tmp`, path)
+}
+
+/** Deletes the cached token, but only if it is still the one the server rejected. */
+export async function forgetCachedToken(network: string, walletAddress: string, rejected: string): Promise<void> {
+  if ((await loadCachedToken(network, walletAddress)) === rejected) {
+    await rm(tokenCachePath(network, walletAddress), { force: true })
+  }
+}
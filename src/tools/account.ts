@@ -0,0 +1,99 @@
+import { z } from "zod"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { Account, AccountRegistry } from "../account.js"
+
+// The address only needs the key; a broken key is reported instead of failing the whole list
+function describeAddress(account: Account): { address?: string; error?: string } {
+  try {
+    return { address: account.signer.getAddress() }
+  } catch (err) {
+    return { error: (err as Error).message }
+  }
+}
+
+export function registerAccountTools(
+  server: McpServer,
+  accounts: AccountRegistry
+): void {
+  // ──────────────────────────────────────────────
+  // list_accounts
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "list_accounts",
+    {
+      description: "[Personal] Lists the configured named accounts (wallets) with their addresses, which one is active, and whether each has logged in yet.",
+      inputSchema: {},
+      outputSchema: {
+        active: z.string(),
+        accounts: z.array(
+          z.object({
+            name: z.string(),
+            address: z.string().optional(),
+            error: z.string().optional(),
+            active: z.boolean(),
+            authenticated: z.boolean(),
+          })
+        ),
+      },
+    },
+    async () => {
+      const result = {
+        active: accounts.active,
+        accounts: accounts.entries().map(([name, account]) => ({
+          name,
+          ...describeAddress(account),
+          active: name === accounts.active,
+          authenticated: account.isAuthenticated(),
+        })),
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // switch_account
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "switch_account",
+    {
+      description: "[Personal] Switches the active account used by tools that are called without an explicit account parameter. Each account keeps its own login, token and API key.",
+      inputSchema: {
+        name: z.string().describe("Account name from list_accounts"),
+      },
+      outputSchema: {
+        active: z.string(),
+        previous: z.string(),
+        address: z.string().optional(),
+        error: z.string().optional(),
+      },
+    },
+    async ({ name }) => {
+      const previous = accounts.active
+      const account = accounts.switchTo(name)
+      const result = {
+        active: name,
+        previous,
+        ...describeAddress(account),
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+}
@@ -1,110 +1,138 @@
 import { z } from "zod"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
-import type { FortemClient } from "../client.js"
-import type { Signer } from "../signer.js"
+import { accountParam, type AccountRegistry } from "../account.js"
+import { ToolError } from "../errors.js"
+import {
+  collectionHeaderSchema,
+  collectionListItemSchema,
+  createCollectionResponseSchema,
+  txResponseSchema,
+  updateCollectionResponseSchema,
+  type CollectionHeader,
+  type CreateCollectionResponse,
+  type UpdateCollectionResponse,
+} from "../schemas.js"
+import { signingOutputSchema } from "../transaction.js"
 import type { TxResponse } from "../types.js"
 
-interface CreateCollectionResponse {
-  collectionId: number
-  objectId: string
-  name: string
-  description: string
-  logoImage: string
-  backgroundImage: string
-  tokenSymbols: string[]
-  isDnaActivated: boolean
-  purchaseFeeRate: number
-}
+// all=true paging limits
+const DEFAULT_ALL_ITEMS = 1000
+const MAX_ALL_ITEMS = 5000
+
+// Header fields update_collection can change
+const DIFF_FIELDS = [
+  "name",
+  "description",
+  "logoImage",
+  "backgroundImage",
+  "acceptedTokenSymbols",
+  "purchaseFeeRate",
+  "isDnaActivated",
+] as const
+
+const collectionDiffSchema = z.array(
+  z.object({
+    field: z.enum(DIFF_FIELDS),
+    before: z.unknown(),
+    after: z.unknown(),
+  })
+)
 
-interface CollectionHeader {
-  id: number
-  objectId: string
-  name: string
-  description: string
-  backgroundImage: string
-  logoImage: string
-  tradeVolume: string
-  itemCount: number
-  isDnaActivated: boolean
-  acceptedTokenSymbols: string[]
-  purchaseFeeRate: number
-  createdAt: string
+function diffCollection(before: CollectionHeader, after: CollectionHeader): z.infer<typeof collectionDiffSchema> {
+  return DIFF_FIELDS.filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)).map(
+    (field) => ({ field, before: before[field] ?? null, after: after[field] ?? null })
+  )
 }
 
-interface CollectionListItem {
-  id: number
-  objectId: string
-  name: string
-  description: string
-  backgroundImage: string
-  logoImage: string
-  tradeVolume: string
-  itemCount: number
-  createdAt: string
+function sameSymbols(a: string[], b: string[]): boolean {
+  return [...a].sort().join() === [...b].sort().join()
 }
 
 export function registerCollectionTools(
   server: McpServer,
-  client: FortemClient,
-  signer: Signer
+  accounts: AccountRegistry
 ): void {
   // ──────────────────────────────────────────────
   // create_collection
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "create_collection",
-    "[Personal] Creates a new NFT collection under your own account. Automatically signs and executes the blockchain transaction.",
     {
-      name: z.string().max(40).describe("Collection name (max 40 characters)"),
-      description: z.string().max(1000).describe("Collection description (max 1000 characters)"),
-      logoImagePath: z.string().optional().describe("Logo image path (value returned after uploading via upload_image tool)"),
-      backgroundImagePath: z.string().optional().describe("Background image path (value returned after uploading via upload_image tool)"),
-      tokenSymbols: z
-        .array(z.enum(["SUI", "USDC", "USDT"]))
-        .optional()
-        .describe("Accepted payment tokens (default: USDC)"),
-      isDnaActivated: z.boolean().optional().default(false).describe("Whether to activate the DNA feature"),
-      purchaseFeeRate: z
-        .union([z.literal(5), z.literal(10), z.literal(15), z.literal(20)])
-        .optional()
-        .describe("Purchase fee rate in % (choose from 5, 10, 15, 20)"),
+      description: "[Personal] Creates a new NFT collection under your own account. Automatically signs and executes the blockchain transaction. Pass dryRun=true to preview the cost first and confirm with confirm_transaction.",
+      inputSchema: {
+        name: z.string().max(40).describe("Collection name (max 40 characters)"),
+        description: z.string().max(1000).describe("Collection description (max 1000 characters)"),
+        logoImagePath: z.string().optional().describe("Logo image path (value returned after uploading via upload_image tool)"),
+        backgroundImagePath: z.string().optional().describe("Background image path (value returned after uploading via upload_image tool)"),
+        tokenSymbols: z
+          .array(z.enum(["SUI", "USDC", "USDT"]))
+          .optional()
+          .describe("Accepted payment tokens (default: USDC)"),
+        isDnaActivated: z.boolean().optional().default(false).describe("Whether to activate the DNA feature"),
+        purchaseFeeRate: z
+          .union([z.literal(5), z.literal(10), z.literal(15), z.literal(20)])
+          .optional()
+          .describe("Purchase fee rate in % (choose from 5, 10, 15, 20)"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        collectionId: z.number(),
+        objectId: z.string(),
+        name: z.string(),
+        description: z.string(),
+        tokenSymbols: z.array(z.string()),
+        isDnaActivated: z.boolean(),
+        purchaseFeeRate: z.number(),
+      }),
     },
-    async (params) => {
-      // 1. prepare
-      const prepared = await client.post<TxResponse>(
-        "/api/v1/collections/create/prepare",
-        params
-      )
+    async ({ account, dryRun, ...params }, extra) => {
+      const { client, transactions } = accounts.get(account)
 
-      // 2. sign
-      const signature = await signer.signTransaction(prepared.txBytes)
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post(
+          "/api/v1/collections/create/prepare",
+          params,
+          txResponseSchema
+        )
 
-      // 3. execute
-      const result = await client.post<CreateCollectionResponse>(
-        "/api/v1/collections/create/execute",
-        { txId: prepared.txId, txBytes: prepared.txBytes, signature }
-      )
+        const tx = {
+          tool: "create_collection",
+          prepared,
+          params,
+          executePath: "/api/v1/collections/create/execute",
+          existing: { kind: "collection", name: params.name } as const,
+          resultSchema: createCollectionResponseSchema,
+          format: (result: CreateCollectionResponse) => ({
+            success: true,
+            collectionId: result.collectionId,
+            objectId: result.objectId,
+            name: result.name,
+            description: result.description,
+            tokenSymbols: result.tokenSymbols,
+            isDnaActivated: result.isDnaActivated,
+            purchaseFeeRate: result.purchaseFeeRate,
+          }),
+        }
+
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              {
-                success: true,
-                collectionId: result.collectionId,
-                objectId: result.objectId,
-                name: result.name,
-                description: result.description,
-                tokenSymbols: result.tokenSymbols,
-                isDnaActivated: result.isDnaActivated,
-                purchaseFeeRate: result.purchaseFeeRate,
-              },
-              null,
-              2
-            ),
+            text: JSON.stringify(output, null, 2),
           },
         ],
+        structuredContent: output,
       }
     }
   )
@@ -112,21 +140,62 @@ export function registerCollectionTools(
   // ──────────────────────────────────────────────
   // get_my_collections
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "get_my_collections",
-    "[Personal] Retrieves your own NFT collection list. Automatically filters to only your collections based on the JWT token.",
     {
-      query: z.string().optional().describe("Search query for collection name"),
-      skip: z.number().int().min(0).optional().default(0).describe("Pagination offset"),
-      take: z.number().int().min(1).max(100).optional().default(10).describe("Number of results to fetch (max 100)"),
+      description: "[Personal] Retrieves your own NFT collection list. Automatically filters to only your collections based on the JWT token. Reports totalItems and nextSkip; pass all=true to fetch every page.",
+      inputSchema: {
+        query: z.string().optional().describe("Search query for collection name"),
+        skip: z.number().int().min(0).optional().default(0).describe("Pagination offset"),
+        take: z.number().int().min(1).max(100).optional().default(10).describe("Number of results to fetch (max 100)"),
+        all: z.boolean().optional().default(false).describe("Fetch every page instead of one (skip/take are ignored)"),
+        maxItems: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_ALL_ITEMS)
+          .optional()
+          .default(DEFAULT_ALL_ITEMS)
+          .describe(`Safety cap for all=true (default ${DEFAULT_ALL_ITEMS}, max ${MAX_ALL_ITEMS})`),
+        account: accountParam,
+      },
+      outputSchema: {
+        collections: z.array(collectionListItemSchema),
+        totalItems: z.number().optional(),
+        truncated: z.boolean().optional(),
+        nextSkip: z.number().nullable(),
+      },
     },
-    async ({ query, skip, take }) => {
+    async ({ account, query, skip, take, all, maxItems }) => {
+      const { client } = accounts.get(account)
+
       const params = new URLSearchParams()
       if (query) params.set("query", query)
-      params.set("skip", String(skip ?? 0))
-      params.set("take", String(take ?? 10))
 
-      const result = await client.get<CollectionListItem[]>(`/api/v1/collections?${params}`)
+      let result
+      if (all) {
+        const pages = await client.getAllPages(
+          "/api/v1/collections",
+          params,
+          maxItems ?? DEFAULT_ALL_ITEMS,
+          collectionListItemSchema
+        )
+        result = {
+          collections: pages.data,
+          totalItems: pages.totalItems,
+          truncated: pages.truncated,
+          nextSkip: pages.nextSkip,
+        }
+      } else {
+        params.set("skip", String(skip ?? 0))
+        params.set("take", String(take ?? 10))
+        const page = await client.getPage("/api/v1/collections", params, collectionListItemSchema)
+        result = {
+          collections: page.data,
+          totalItems: page.totalItems,
+          nextSkip: page.nextSkip,
+        }
+      }
 
       return {
         content: [
@@ -135,6 +204,7 @@ export function registerCollectionTools(
             text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result,
       }
     }
   )
@@ -142,15 +212,22 @@ export function registerCollectionTools(
   // ──────────────────────────────────────────────
   // get_collection_detail
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "get_collection_detail",
-    "[Personal] Retrieves detailed information for a specific collection.",
     {
-      collectionId: z.number().int().positive().describe("Collection ID"),
+      description: "[Personal] Retrieves detailed information for a specific collection.",
+      inputSchema: {
+        collectionId: z.number().int().positive().describe("Collection ID"),
+        account: accountParam,
+      },
+      outputSchema: collectionHeaderSchema,
     },
-    async ({ collectionId }) => {
-      const result = await client.get<CollectionHeader>(
-        `/api/v1/collections/${collectionId}/header`
+    async ({ account, collectionId }) => {
+      const { client } = accounts.get(account)
+
+      const result = await client.get(
+        `/api/v1/collections/${collectionId}/header`,
+        collectionHeaderSchema
       )
 
       return {
@@ -160,6 +237,154 @@ export function registerCollectionTools(
             text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // update_collection
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "update_collection",
+    {
+      description: "[Personal] Updates one of your collections after creation: name, description, logo/background image (S3 keys from upload_image), accepted tokenSymbols, purchaseFeeRate and DNA activation. Only fields that differ from the current header are sent. Images are saved directly; the other fields are on-chain and are signed and executed like create_collection. Returns a before/after diff. Pass dryRun=true to preview the diff and cost first and confirm with confirm_transaction.",
+      inputSchema: {
+        collectionId: z.number().int().positive().describe("ID of the collection to update"),
+        name: z.string().max(40).optional().describe("New collection name (max 40 characters)"),
+        description: z.string().max(1000).optional().describe("New collection description (max 1000 characters)"),
+        logoImagePath: z.string().optional().describe("New logo image path (value returned after uploading via upload_image tool)"),
+        backgroundImagePath: z.string().optional().describe("New background image path (value returned after uploading via upload_image tool)"),
+        tokenSymbols: z
+          .array(z.enum(["SUI", "USDC", "USDT"]))
+          .min(1)
+          .optional()
+          .describe("Accepted payment tokens, replacing the current list"),
+        isDnaActivated: z.boolean().optional().describe("Whether the DNA feature is active"),
+        purchaseFeeRate: z
+          .union([z.literal(5), z.literal(10), z.literal(15), z.literal(20)])
+          .optional()
+          .describe("Purchase fee rate in % (choose from 5, 10, 15, 20)"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the planned diff, cost and a confirmationId without changing anything"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        collectionId: z.number(),
+        objectId: z.string(),
+        imagesUpdated: z.boolean(),
+        onChainUpdated: z.boolean(),
+        diff: collectionDiffSchema,
+        before: collectionHeaderSchema,
+        after: collectionHeaderSchema,
+      }),
+    },
+    async ({ account, collectionId, dryRun, logoImagePath, backgroundImagePath, ...fields }, extra) => {
+      const { client, transactions } = accounts.get(account)
+      const headerPath = `/api/v1/collections/${collectionId}/header`
+
+      const before = await client.get(headerPath, collectionHeaderSchema)
+
+      // Only fields that actually change are sent
+      const onChain = {
+        name: fields.name !== before.name ? fields.name : undefined,
+        description: fields.description !== before.description ? fields.description : undefined,
+        tokenSymbols:
+          fields.tokenSymbols && !sameSymbols(fields.tokenSymbols, before.acceptedTokenSymbols)
+            ? fields.tokenSymbols
+            : undefined,
+        purchaseFeeRate: fields.purchaseFeeRate !== before.purchaseFeeRate ? fields.purchaseFeeRate : undefined,
+        isDnaActivated: fields.isDnaActivated !== before.isDnaActivated ? fields.isDnaActivated : undefined,
+      }
+      const hasOnChain = Object.values(onChain).some((value) => value !== undefined)
+      const images = { logoImagePath, backgroundImagePath }
+      const hasImages = logoImagePath !== undefined || backgroundImagePath !== undefined
+
+      if (!hasOnChain && !hasImages) {
+        throw new ToolError("VALIDATION_ERROR", `Nothing to update: collection ${collectionId} already has these values.`)
+      }
+      if (dryRun && hasOnChain && hasImages) {
+        throw new ToolError(
+          "VALIDATION_ERROR",
+          "confirm_transaction only applies the on-chain fields. Preview the image paths and the other fields in separate calls."
+        )
+      }
+
+      // Images are S3 keys here; the header shows them as URLs once saved
+      const planned: CollectionHeader = {
+        ...before,
+        ...(onChain.name !== undefined && { name: onChain.name }),
+        ...(onChain.description !== undefined && { description: onChain.description }),
+        ...(logoImagePath !== undefined && { logoImage: logoImagePath }),
+        ...(backgroundImagePath !== undefined && { backgroundImage: backgroundImagePath }),
+        ...(onChain.tokenSymbols && { acceptedTokenSymbols: onChain.tokenSymbols }),
+        ...(onChain.purchaseFeeRate !== undefined && { purchaseFeeRate: onChain.purchaseFeeRate }),
+        ...(onChain.isDnaActivated !== undefined && { isDnaActivated: onChain.isDnaActivated }),
+      }
+
+      const updateTransaction = (prepared: TxResponse) => ({
+        tool: "update_collection",
+        prepared,
+        params: { collectionId, ...onChain },
+        executePath: "/api/v1/collections/update/execute",
+        existing: { kind: "collectionState", collectionId, ...onChain } as const,
+        resultSchema: updateCollectionResponseSchema,
+        format: (result: UpdateCollectionResponse) => ({
+          success: true,
+          collectionId: result.collectionId,
+          objectId: result.objectId,
+        }),
+      })
+
+      let output: Record<string, unknown>
+      if (dryRun && !hasOnChain) {
+        output = {
+          preview: true,
+          diff: diffCollection(before, planned),
+          note: "Nothing has been changed. Image updates need no signature; run again without dryRun to apply them.",
+        }
+      } else if (dryRun) {
+        output = await transactions.enqueue(async () => {
+          const prepared = await client.post(`/api/v1/collections/${collectionId}/update/prepare`, onChain, txResponseSchema)
+          return { ...transactions.hold(updateTransaction(prepared)), diff: diffCollection(before, planned) }
+        }, extra)
+      } else {
+        // 1. images (off-chain, no signature)
+        if (hasImages) await client.put(`/api/v1/collections/${collectionId}`, images, z.unknown())
+
+        // 2. prepare + 3. sign + 4. execute the on-chain fields
+        if (hasOnChain) {
+          await transactions.enqueue(async () => {
+            const prepared = await client.post(`/api/v1/collections/${collectionId}/update/prepare`, onChain, txResponseSchema)
+            return transactions.execute(updateTransaction(prepared))
+          }, extra)
+        }
+
+        const after = await client.get(headerPath, collectionHeaderSchema)
+        output = {
+          success: true,
+          collectionId,
+          objectId: after.objectId,
+          imagesUpdated: hasImages,
+          onChainUpdated: hasOnChain,
+          diff: diffCollection(before, after),
+          before,
+          after,
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
       }
     }
   )
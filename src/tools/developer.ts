@@ -1,24 +1,7 @@
 import { z } from "zod"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
-import type { FortemClient } from "../client.js"
-
-interface CheckWalletResponse {
-  exists: boolean
-  walletAddress: string
-}
-
-interface UserProfile {
-  id: number
-  walletAddress: string
-  nickname: string
-  profileImage: string
-  email?: string
-  createdAt: string
-}
-
-interface ApiKeyResponse {
-  apiKey: string
-}
+import { accountParam, type AccountRegistry } from "../account.js"
+import { apiKeyResponseSchema, checkWalletResponseSchema, userProfileSchema } from "../schemas.js"
 
 function buildGuideAll(apiKey: string): string {
   return `
@@ -278,81 +261,105 @@ https://docs.fortem.gg
 
 export function registerDeveloperTools(
   server: McpServer,
-  client: FortemClient,
-  getDeveloperApiKey: () => Promise<string>
+  accounts: AccountRegistry
 ): void {
   // ──────────────────────────────────────────────
   // get_developer_guide
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "get_developer_guide",
-    "[Developer] Get a guide for integrating Fortem into your game or app — for monetization, NFT rewards, and item management. Includes your actual API key in code examples. Choose from three integration paths: Direct API, JS SDK (HTML/web games), or Unity SDK.",
     {
-      option: z
-        .enum(["1", "2", "3"])
-        .optional()
-        .describe(
-          "Integration option: 1=Direct Developer API, 2=JS SDK for HTML/web games, 3=Unity SDK. Omit to see an overview of all options."
-        ),
+      description: "[Developer] Get a guide for integrating Fortem into your game or app — for monetization, NFT rewards, and item management. Includes your actual API key in code examples. Choose from three integration paths: Direct API, JS SDK (HTML/web games), or Unity SDK.",
+      inputSchema: {
+        option: z
+          .enum(["1", "2", "3"])
+          .optional()
+          .describe(
+            "Integration option: 1=Direct Developer API, 2=JS SDK for HTML/web games, 3=Unity SDK. Omit to see an overview of all options."
+          ),
+        account: accountParam,
+      },
+      outputSchema: {
+        option: z.string(),
+        guide: z.string(),
+      },
     },
-    async ({ option }) => {
-      const apiKey = await getDeveloperApiKey()
+    async ({ account, option }) => {
+      const apiKey = await accounts.get(account).getDeveloperApiKey()
       const guide =
         option === "1" ? buildGuide1(apiKey) :
         option === "2" ? buildGuide2(apiKey) :
         option === "3" ? buildGuide3(apiKey) :
         buildGuideAll(apiKey)
 
-      return { content: [{ type: "text", text: guide }] }
+      // The guide is markdown: keep it as the text block rather than JSON
+      return {
+        content: [{ type: "text", text: guide }],
+        structuredContent: { option: option ?? "all", guide },
+      }
     }
   )
 
   // ──────────────────────────────────────────────
   // get_my_api_key
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "get_my_api_key",
-    "[Developer] Get your Fortem Developer API key. Use this key to authenticate requests from the JS SDK, Unity SDK, or direct REST API calls. Pass regenerate=true to issue a new key (the old key will be invalidated).",
     {
-      regenerate: z
-        .boolean()
-        .optional()
-        .default(false)
-        .describe("Set to true to generate a new API key (invalidates the current one)"),
+      description: "[Developer] Get your Fortem Developer API key. Use this key to authenticate requests from the JS SDK, Unity SDK, or direct REST API calls. Pass regenerate=true to issue a new key (the old key will be invalidated).",
+      inputSchema: {
+        regenerate: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Set to true to generate a new API key (invalidates the current one)"),
+        account: accountParam,
+      },
+      outputSchema: {
+        apiKey: z.string(),
+        regenerated: z.boolean(),
+        note: z.string(),
+      },
     },
-    async ({ regenerate }) => {
+    async ({ account, regenerate }) => {
+      const selected = accounts.get(account)
+      const { client } = selected
+
       let apiKey: string
 
       if (regenerate) {
-        const result = await client.put<ApiKeyResponse>(
+        const result = await client.put(
           "/api/v1/users/settings/developers/api-key",
-          {}
+          {},
+          apiKeyResponseSchema
         )
         apiKey = result.apiKey
+        // The old key is invalid now; get_developer_guide must not print it
+        selected.setDeveloperApiKey(apiKey)
       } else {
-        const result = await client.get<ApiKeyResponse>(
-          "/api/v1/users/settings/developers/api-key"
+        const result = await client.get(
+          "/api/v1/users/settings/developers/api-key",
+          apiKeyResponseSchema
         )
         apiKey = result.apiKey
       }
 
+      const output = {
+        apiKey,
+        regenerated: regenerate ?? false,
+        note: regenerate
+          ? "A new API key has been issued. Update your SDK configuration with this key."
+          : "Use this key in createFortemClient({ apiKey }) or as Authorization: Bearer <key>.",
+      }
+
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              {
-                apiKey,
-                regenerated: regenerate ?? false,
-                note: regenerate
-                  ? "A new API key has been issued. Update your SDK configuration with this key."
-                  : "Use this key in createFortemClient({ apiKey }) or as Authorization: Bearer <key>.",
-              },
-              null,
-              2
-            ),
+            text: JSON.stringify(output, null, 2),
           },
         ],
+        structuredContent: output,
       }
     }
   )
@@ -360,36 +367,44 @@ export function registerDeveloperTools(
   // ──────────────────────────────────────────────
   // verify_member
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "verify_member",
-    "[Developer] Check whether a Sui wallet address is a registered Fortem member. Use this in your game to verify players before granting them access to Fortem-powered features.",
     {
-      walletAddress: z
-        .string()
-        .describe("Sui wallet address to verify (starts with 0x)"),
+      description: "[Developer] Check whether a Sui wallet address is a registered Fortem member. Use this in your game to verify players before granting them access to Fortem-powered features.",
+      inputSchema: {
+        walletAddress: z
+          .string()
+          .describe("Sui wallet address to verify (starts with 0x)"),
+      },
+      outputSchema: {
+        walletAddress: z.string(),
+        isMember: z.boolean(),
+        message: z.string(),
+      },
     },
     async ({ walletAddress }) => {
-      const result = await client.post<CheckWalletResponse>("/api/v1/auth/check-wallet", {
+      const { client } = accounts.get()
+
+      const result = await client.post("/api/v1/auth/check-wallet", {
         walletAddress,
-      })
+      }, checkWalletResponseSchema)
+
+      const output = {
+        walletAddress: result.walletAddress,
+        isMember: result.exists,
+        message: result.exists
+          ? "This address is a registered Fortem member."
+          : "This address is not registered on Fortem. Direct them to https://fortem.gg to sign up.",
+      }
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              {
-                walletAddress: result.walletAddress,
-                isMember: result.exists,
-                message: result.exists
-                  ? "This address is a registered Fortem member."
-                  : "This address is not registered on Fortem. Direct them to https://fortem.gg to sign up.",
-              },
-              null,
-              2
-            ),
+            text: JSON.stringify(output, null, 2),
           },
         ],
+        structuredContent: output,
       }
     }
   )
@@ -397,12 +412,19 @@ export function registerDeveloperTools(
   // ──────────────────────────────────────────────
   // get_my_profile
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "get_my_profile",
-    "[Developer] Get your Fortem account profile — wallet address, nickname, and account info. Useful for confirming which account the MCP server is authenticated as.",
-    {},
-    async () => {
-      const result = await client.get<UserProfile>("/api/v1/users/me")
+    {
+      description: "[Developer] Get your Fortem account profile — wallet address, nickname, and account info. Useful for confirming which account the MCP server is authenticated as.",
+      inputSchema: {
+        account: accountParam,
+      },
+      outputSchema: userProfileSchema,
+    },
+    async ({ account }) => {
+      const { client } = accounts.get(account)
+
+      const result = await client.get("/api/v1/users/me", userProfileSchema)
 
       return {
         content: [
@@ -411,6 +433,7 @@ export function registerDeveloperTools(
             text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result,
       }
     }
   )
@@ -0,0 +1,196 @@
+import { z } from "zod"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { accountParam, type AccountRegistry } from "../account.js"
+import { ToolError } from "../errors.js"
+import {
+  inventoryItemSchema,
+  inventoryPath,
+  loadInventory,
+  queryInventory,
+  saveInventory,
+  type InventoryItem,
+} from "../inventory.js"
+import { collectionListItemSchema, itemDetailSchema, itemSearchItemSchema } from "../schemas.js"
+
+// Safety cap per list endpoint during a sync
+const MAX_SYNC_ITEMS = 10000
+
+export function registerInventoryTools(
+  server: McpServer,
+  accounts: AccountRegistry,
+  network: string
+): void {
+  // ──────────────────────────────────────────────
+  // sync_inventory
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "sync_inventory",
+    {
+      description: "[Personal] Syncs your collections and items into a local mirror (one file per wallet and network) so query_inventory can answer questions offline. Incremental: item details (attributes, objectId) are only re-fetched for new or changed items. If a listing hits the sync cap (truncated), entries it did not reach are kept from the previous sync instead of being removed.",
+      inputSchema: {
+        full: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Re-fetch every item's details instead of only new or changed items"),
+        account: accountParam,
+      },
+      outputSchema: {
+        syncedAt: z.string(),
+        path: z.string(),
+        collections: z.number(),
+        items: z.number(),
+        detailsFetched: z.number(),
+        detailsReused: z.number(),
+        removed: z.number(),
+        truncated: z.boolean(),
+      },
+    },
+    async ({ account, full }) => {
+      const { client, signer } = accounts.get(account)
+
+      const collectionPages = await client.getAllPages(
+        "/api/v1/collections",
+        new URLSearchParams(),
+        MAX_SYNC_ITEMS,
+        collectionListItemSchema
+      )
+      const itemPages = await client.getAllPages(
+        "/api/v1/items",
+        new URLSearchParams(),
+        MAX_SYNC_ITEMS,
+        itemSearchItemSchema
+      )
+
+      const walletAddress = signer.getAddress()
+      const previous = await loadInventory(network, walletAddress)
+      const previousById = new Map(previous.items.map((item) => [item.id, item]))
+
+      let detailsFetched = 0
+      const items: InventoryItem[] = []
+      for (const item of itemPages.data) {
+        const known = previousById.get(item.id)
+        const unchanged =
+          known?.attributes !== undefined &&
+          known.status === item.status &&
+          known.tradeVolume === item.tradeVolume &&
+          known.kiosk?.price === item.kiosk?.price
+
+        if (!full && unchanged) {
+          items.push({ ...item, objectId: known.objectId, attributes: known.attributes })
+          continue
+        }
+
+        const detail = await client.get(`/api/v1/items/${item.id}`, itemDetailSchema)
+        detailsFetched++
+        items.push({ ...item, objectId: detail.details.objectId, attributes: detail.details.attributes })
+      }
+
+      const detailsReused = items.length - detailsFetched
+
+      // Past the cap an item is unseen, not gone: keep its last known entry and do not count it as removed
+      const currentIds = new Set(items.map((item) => item.id))
+      const unseen = previous.items.filter((item) => !currentIds.has(item.id))
+      if (itemPages.truncated) items.push(...unseen)
+      const removed = itemPages.truncated ? 0 : unseen.length
+
+      const currentCollectionIds = new Set(collectionPages.data.map((collection) => collection.id))
+      const collections = collectionPages.truncated
+        ? [...collectionPages.data, ...previous.collections.filter((collection) => !currentCollectionIds.has(collection.id))]
+        : collectionPages.data
+
+      const syncedAt = new Date().toISOString()
+      await saveInventory({
+        network,
+        walletAddress,
+        syncedAt,
+        collections,
+        items,
+      })
+
+      const result = {
+        syncedAt,
+        path: inventoryPath(network, walletAddress),
+        collections: collections.length,
+        items: items.length,
+        detailsFetched,
+        detailsReused,
+        removed,
+        truncated: collectionPages.truncated || itemPages.truncated,
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // query_inventory
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "query_inventory",
+    {
+      description: "[Personal] Queries the local inventory mirror built by sync_inventory, without calling the Fortem API. Supports attribute, price, token, date and status filters and sorting by trade volume, price or creation date.",
+      inputSchema: {
+        collectionIds: z.array(z.number().int().positive()).optional().describe("Only items in these collections"),
+        status: z
+          .enum(["PROCESSING", "MINTED", "REDEEMED", "OFFER_PENDING", "KIOSK_LISTED"])
+          .optional()
+          .describe("Item status filter"),
+        query: z.string().optional().describe("Text to match in item name or description"),
+        attributeName: z.string().optional().describe("Attribute name to match (case-insensitive), e.g. 'Rarity'"),
+        attributeValue: z.string().optional().describe("Attribute value to match (case-insensitive), e.g. 'Legendary'"),
+        minPrice: z.number().min(0).optional().describe("Minimum listed price (only listed items match)"),
+        maxPrice: z.number().min(0).optional().describe("Maximum listed price (only listed items match)"),
+        tokenSymbol: z.enum(["SUI", "USDC", "USDT"]).optional().describe("Listing token (only listed items match)"),
+        createdAfter: z.string().optional().describe("ISO date; only items created on or after it"),
+        createdBefore: z.string().optional().describe("ISO date; only items created on or before it"),
+        sortBy: z.enum(["tradeVolume", "price", "createdAt"]).optional().describe("Sort field"),
+        sortOrder: z.enum(["asc", "desc"]).optional().default("desc").describe("Sort direction (default: desc)"),
+        limit: z.number().int().min(1).max(1000).optional().default(50).describe("Max items to return (default 50)"),
+        account: accountParam,
+      },
+      outputSchema: {
+        syncedAt: z.string(),
+        matched: z.number(),
+        returned: z.number(),
+        items: z.array(inventoryItemSchema),
+      },
+    },
+    async ({ account, ...params }) => {
+      const { signer } = accounts.get(account)
+
+      const snapshot = await loadInventory(network, signer.getAddress())
+      if (!snapshot.syncedAt) {
+        throw new ToolError("NOT_FOUND", "No local inventory yet.", "Run sync_inventory first.")
+      }
+
+      const all = queryInventory(snapshot.items, { ...params, limit: undefined })
+      const items = all.slice(0, params.limit ?? 50)
+
+      const result = {
+        syncedAt: snapshot.syncedAt,
+        matched: all.length,
+        returned: items.length,
+        items,
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+}
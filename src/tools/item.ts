@@ -1,160 +1,146 @@
 import { z } from "zod"
-import { readFile } from "node:fs/promises"
-import { basename } from "node:path"
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
-import type { FortemClient } from "../client.js"
-import type { Signer } from "../signer.js"
-import type { TxResponse } from "../types.js"
+import { accountParam, type AccountRegistry } from "../account.js"
+import { listImageFiles, uploadImage, uploadItemImage, type UploadedImage } from "../upload.js"
+import { MintJournal, readManifest } from "../manifest.js"
+import { FortemApiError, ToolError } from "../errors.js"
+import {
+  checkWalletResponseSchema,
+  itemDetailSchema,
+  itemSearchItemSchema,
+  mintItemResponseSchema,
+  transferItemResponseSchema,
+  txResponseSchema,
+  type MintItemResponse,
+  type TransferItemResponse,
+} from "../schemas.js"
+import { signingOutputSchema } from "../transaction.js"
 
-interface UploadItemImageResponse {
-  itemImage: string
-}
+// all=true paging limits
+const DEFAULT_ALL_ITEMS = 1000
+const MAX_ALL_ITEMS = 5000
 
-interface MintItemResponse {
-  itemId: number
-  objectId: string
-  name: string
-  description: string
-  collectionId: number
-  userId: number
-  nftNumber: number
-  itemImage: string
-  quantity: number
-  redeemCode: string
-  redeemUrl?: string
-}
+const bulkMintRowSchema = z.object({
+  row: z.number(),
+  name: z.string(),
+  status: z.enum(["minted", "already_minted", "failed", "unconfirmed"]),
+  itemId: z.number().optional(),
+  objectId: z.string().optional(),
+  error: z.string().optional(),
+})
+type BulkMintRowReport = z.infer<typeof bulkMintRowSchema>
 
-interface ItemSearchItem {
-  id: number
-  nftNumber: number
-  name: string
-  description: string
-  itemImage: string
-  quantity: number
-  tradeVolume: string
-  status: string
-  createdAt: string
-  collection: { id: number; name: string }
-  kiosk?: {
-    price: string
-    priceTokenSymbol: string
-    isPurchasePrice: boolean
-    isItemSwap: boolean
-  }
+const mintedIdsSchema = z.object({ itemId: z.number().optional(), objectId: z.string().optional() })
+
+// IDs from a mint result, or none when the result does not carry them
+function mintedIds(result: unknown): z.infer<typeof mintedIdsSchema> {
+  const parsed = mintedIdsSchema.safeParse(result)
+  return parsed.success ? parsed.data : {}
 }
 
-interface ItemDetail {
-  id: number
-  nftNumber: number
-  name: string
-  itemImage: string
-  quantity: number
-  status: string
-  collection: {
-    id: number
-    name: string
-    objectId: string
-  }
-  redeemUrl?: string
-  kioskItemId?: number
-  details: {
-    objectId: string
-    ownerAddress: string
-    description: string
-    attributes: Array<{ name: string; value: string }>
-  }
-  buy: {
-    price: string
-    priceUsd: string
-    priceTokenSymbol: string
-  }
+// How a row signed in an earlier run turned out
+type SubmittedOutcome =
+  | { status: "minted"; itemId?: number; objectId?: string }
+  | { status: "rejected" }
+  | { status: "unconfirmed"; error: string }
+
+// What upload_image reports about each image besides its CID or S3 key
+const uploadDetailsShape = {
+  sha256: z.string().optional(),
+  mimeType: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  bytes: z.number().optional(),
+  cached: z.boolean().optional(),
 }
 
-function getMimeType(filename: string): string {
-  const ext = filename.toLowerCase().split(".").pop()
-  const mimeMap: Record<string, string> = {
-    jpg: "image/jpeg",
-    jpeg: "image/jpeg",
-    png: "image/png",
-    webp: "image/webp",
-    gif: "image/gif",
-  }
-  return mimeMap[ext ?? ""] ?? "application/octet-stream"
+function uploadDetails({ sha256, mimeType, width, height, bytes, cached }: Omit<UploadedImage, "value" | "type">) {
+  return { sha256, mimeType, width, height, bytes, cached }
 }
 
 export function registerItemTools(
   server: McpServer,
-  client: FortemClient,
-  signer: Signer
+  accounts: AccountRegistry
 ): void {
   // ──────────────────────────────────────────────
   // upload_image
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "upload_image",
-    "[Personal] Uploads a local image file to Fortem. Item images are stored on IPFS; collection images are stored on S3.",
     {
-      filePath: z.string().describe("Absolute path to the local file to upload (e.g. /Users/me/image.png)"),
-      type: z
-        .enum(["item", "collection_logo", "collection_background"])
-        .describe("Image type: item (NFT image), collection_logo (collection logo), collection_background (background)"),
+      description: "[Personal] Uploads an image to Fortem from a local file, an http(s) URL, base64 data or every image in a local directory (pass exactly one). The real type is read from the content (PNG, JPEG, GIF, WebP) and checked against the size limits for the image type. Item images are stored on IPFS; collection images are stored on S3. Content uploaded before returns the cached CID/S3 key without uploading again.",
+      inputSchema: {
+        filePath: z.string().optional().describe("Absolute path to the local file to upload (e.g. /Users/me/image.png)"),
+        url: z.string().url().optional().describe("Public http(s) URL to download the image from"),
+        base64: z.string().optional().describe("Image data as base64 or a data: URI (e.g. an image another tool produced)"),
+        filename: z.string().optional().describe("File name to upload base64 data as (default: image)"),
+        directoryPath: z.string().optional().describe("Absolute path to a directory; every .png/.jpg/.jpeg/.gif/.webp file in it is uploaded"),
+        type: z
+          .enum(["item", "collection_logo", "collection_background"])
+          .describe("Image type: item (NFT image), collection_logo (collection logo), collection_background (background)"),
+        account: accountParam,
+      },
+      outputSchema: {
+        type: z.enum(["item", "collection_logo", "collection_background"]),
+        ipfsCid: z.string().optional(),
+        s3Key: z.string().optional(),
+        ...uploadDetailsShape,
+        directoryPath: z.string().optional(),
+        uploaded: z.number().optional(),
+        failed: z.number().optional(),
+        files: z.array(z.object({ filePath: z.string(), error: z.string().optional(), ...uploadDetailsShape })).optional(),
+        note: z.string(),
+      },
     },
-    async ({ filePath, type }) => {
-      const buffer = await readFile(filePath)
-      const filename = basename(filePath)
-      const mimeType = getMimeType(filename)
-
-      const formData = new FormData()
-      const blob = new Blob([buffer], { type: mimeType })
-      formData.append("file", blob, filename)
-
-      const endpointMap = {
-        item: "/api/v1/items/image-upload",
-        collection_logo: "/api/v1/collections/image-upload/logo",
-        collection_background: "/api/v1/collections/image-upload/background",
-      } as const
-
-      if (type === "item") {
-        const result = await client.uploadFile<UploadItemImageResponse>(
-          endpointMap[type],
-          formData
-        )
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  type: "item",
-                  ipfsCid: result.itemImage,
-                  note: "Use this CID as itemImage parameter in mint_item",
-                },
-                null,
-                2
-              ),
-            },
-          ],
+    async ({ account, filePath, url, base64, filename, directoryPath, type }) => {
+      const { client } = accounts.get(account)
+
+      const given = [filePath, url, base64, directoryPath].filter((source) => source !== undefined)
+      if (given.length !== 1) {
+        throw new ToolError("VALIDATION_ERROR", "Pass exactly one of filePath, url, base64 or directoryPath.")
+      }
+
+      // The CID or S3 key goes in the field named after the destination
+      const valueField = type === "item" ? "ipfsCid" : "s3Key"
+      const note = type === "item"
+        ? "Use this CID as itemImage parameter in mint_item"
+        : `Use this value as ${type === "collection_logo" ? "logoImagePath" : "backgroundImagePath"} parameter in create_collection`
+
+      let result
+      if (directoryPath) {
+        const files = []
+        for (const path of await listImageFiles(directoryPath)) {
+          try {
+            const { value, ...details } = await uploadImage(client, { filePath: path }, type)
+            files.push({ filePath: path, [valueField]: value, ...uploadDetails(details) })
+          } catch (err) {
+            files.push({ filePath: path, error: (err as Error).message })
+          }
         }
-      } else {
-        const s3Key = await client.uploadFile<string>(endpointMap[type], formData)
-        const fieldName =
-          type === "collection_logo" ? "logoImagePath" : "backgroundImagePath"
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  type,
-                  s3Key,
-                  note: `Use this value as ${fieldName} parameter in create_collection`,
-                },
-                null,
-                2
-              ),
-            },
-          ],
+        const failed = files.filter((file) => file.error !== undefined).length
+        result = {
+          type,
+          directoryPath,
+          uploaded: files.length - failed,
+          failed,
+          files,
+          note: files.length === 0 ? "No .png, .jpg, .jpeg, .gif or .webp files found" : note,
         }
+      } else {
+        const source = filePath !== undefined ? { filePath } : url !== undefined ? { url } : { base64: base64!, filename }
+        const { value, ...details } = await uploadImage(client, source, type)
+        result = { type, [valueField]: value, ...uploadDetails(details), note }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
       }
     }
   )
@@ -162,62 +148,395 @@ export function registerItemTools(
   // ──────────────────────────────────────────────
   // mint_item
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "mint_item",
-    "[Personal] Mints an NFT item into your collection. Automatically signs and executes the blockchain transaction.",
     {
-      collectionId: z.number().int().positive().describe("Collection ID to add the item to"),
-      name: z.string().max(40).describe("Item name (max 40 characters)"),
-      description: z.string().max(1000).describe("Item description (max 1000 characters)"),
-      quantity: z.number().int().positive().describe("Quantity to mint"),
-      redeemCode: z
-        .string()
-        .regex(/^\S+$/, "redeemCode must not contain spaces")
-        .describe("Redeem code without spaces (used when redeeming the item)"),
-      redeemUrl: z.string().max(200).optional().describe("Redeem URL (max 200 characters, optional)"),
-      itemImage: z
-        .string()
-        .optional()
-        .describe("IPFS CID (ipfsCid value returned after uploading via upload_image tool)"),
-      attributes: z
-        .array(z.object({ name: z.string(), value: z.string() }))
-        .optional()
-        .describe("NFT attribute array (e.g. [{name: 'Level', value: '1'}])"),
+      description: "[Personal] Mints an NFT item into your collection. Automatically signs and executes the blockchain transaction. Pass dryRun=true to preview the cost first and confirm with confirm_transaction.",
+      inputSchema: {
+        collectionId: z.number().int().positive().describe("Collection ID to add the item to"),
+        name: z.string().max(40).describe("Item name (max 40 characters)"),
+        description: z.string().max(1000).describe("Item description (max 1000 characters)"),
+        quantity: z.number().int().positive().describe("Quantity to mint"),
+        redeemCode: z
+          .string()
+          .regex(/^\S+$/, "redeemCode must not contain spaces")
+          .describe("Redeem code without spaces (used when redeeming the item)"),
+        redeemUrl: z.string().max(200).optional().describe("Redeem URL (max 200 characters, optional)"),
+        itemImage: z
+          .string()
+          .optional()
+          .describe("IPFS CID (ipfsCid value returned after uploading via upload_image tool)"),
+        attributes: z
+          .array(z.object({ name: z.string(), value: z.string() }))
+          .optional()
+          .describe("NFT attribute array (e.g. [{name: 'Level', value: '1'}])"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        itemId: z.number(),
+        objectId: z.string(),
+        name: z.string(),
+        collectionId: z.number(),
+        nftNumber: z.number(),
+        quantity: z.number(),
+        redeemCode: z.string(),
+      }),
     },
-    async (params) => {
-      // 1. prepare
-      const prepared = await client.post<TxResponse>("/api/v1/items/mint/prepare", params)
+    async ({ account, dryRun, ...params }, extra) => {
+      const { client, transactions } = accounts.get(account)
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post("/api/v1/items/mint/prepare", params, txResponseSchema)
 
-      // 2. sign
-      const signature = await signer.signTransaction(prepared.txBytes)
+        const tx = {
+          tool: "mint_item",
+          prepared,
+          params,
+          executePath: "/api/v1/items/mint/execute",
+          existing: { kind: "item", collectionId: params.collectionId, name: params.name, redeemCode: params.redeemCode } as const,
+          resultSchema: mintItemResponseSchema,
+          format: (result: MintItemResponse) => ({
+            success: true,
+            itemId: result.itemId,
+            objectId: result.objectId,
+            name: result.name,
+            collectionId: result.collectionId,
+            nftNumber: result.nftNumber,
+            quantity: result.quantity,
+            redeemCode: result.redeemCode,
+          }),
+        }
 
-      // 3. execute
-      const result = await client.post<MintItemResponse>("/api/v1/items/mint/execute", {
-        txId: prepared.txId,
-        txBytes: prepared.txBytes,
-        signature,
-      })
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              {
-                success: true,
-                itemId: result.itemId,
-                objectId: result.objectId,
-                name: result.name,
-                collectionId: result.collectionId,
-                nftNumber: result.nftNumber,
-                quantity: result.quantity,
-                redeemCode: result.redeemCode,
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // bulk_mint_items
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "bulk_mint_items",
+    {
+      description: "[Personal] Mints every row of a CSV or JSON manifest (name, description, quantity, redeemCode, optional redeemUrl, itemImage or local imagePath, attributes). Uploads local images, then mints each row. Progress is written to a journal file so re-running the same manifest resumes without minting a row twice.",
+      inputSchema: {
+        manifestPath: z.string().describe("Absolute path to the .csv or .json manifest. CSV attributes use 'attr:<Name>' columns."),
+        collectionId: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Collection ID for rows that do not set their own collectionId"),
+        journalPath: z
+          .string()
+          .optional()
+          .describe("Journal file path (default: <manifestPath>.journal.jsonl)"),
+        retryUnconfirmed: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Resolve rows that were signed but whose execute result was never recorded, like retry_pending_transaction: a row is only minted again if the API rejects its signed transaction."),
+        account: accountParam,
+      },
+      outputSchema: {
+        journalPath: z.string(),
+        total: z.number(),
+        minted: z.number(),
+        alreadyMinted: z.number(),
+        failed: z.number(),
+        unconfirmed: z.number(),
+        rows: z.array(bulkMintRowSchema),
+      },
+    },
+    async ({ account, manifestPath, collectionId, journalPath, retryUnconfirmed }, extra) => {
+      const { client, transactions } = accounts.get(account)
+
+      const rows = await readManifest(manifestPath)
+      const journal = await MintJournal.open(journalPath ?? `${manifestPath}.journal.jsonl`)
+      const report: BulkMintRowReport[] = []
+
+      // Checks for the outcome and re-submits the same signed bytes; never signs a second mint
+      async function resolveSubmitted(txId: string | undefined): Promise<SubmittedOutcome> {
+        if (!txId) return { status: "unconfirmed", error: "The journal has no txId for this row." }
+        try {
+          const retried = await transactions.retryPending(txId, extra)
+          return { status: "minted", ...mintedIds(retried.result) }
+        } catch (err) {
+          if (err instanceof ToolError && err.code === "NOT_FOUND") {
+            return {
+              status: "unconfirmed",
+              error: `Tx ${txId} is no longer pending; it was resolved or discarded elsewhere. Check get_transaction_history and get_my_items, and use a new journalPath to mint the row again.`,
+            }
+          }
+          // The API refused the signed bytes, so this mint never landed and is dropped for good
+          if (err instanceof FortemApiError && err.status < 500) {
+            await transactions.discardPending(txId)
+            return { status: "rejected" }
+          }
+          return { status: "unconfirmed", error: (err as Error).message }
+        }
+      }
+
+      for (const [index, row] of rows.entries()) {
+        const rowNumber = index + 1
+        const previous = journal.get(rowNumber)
+        const base = { row: rowNumber, name: row.name, redeemCode: row.redeemCode }
+
+        if (previous && (previous.name !== row.name || previous.redeemCode !== row.redeemCode)) {
+          report.push({
+            row: rowNumber,
+            name: row.name,
+            status: "failed",
+            error: `Journal row ${rowNumber} is "${previous.name}" (${previous.redeemCode}); the manifest changed since the last run. Use a new journalPath.`,
+          })
+          continue
+        }
+
+        if (previous?.status === "minted") {
+          report.push({
+            row: rowNumber,
+            name: row.name,
+            status: "already_minted",
+            itemId: previous.itemId,
+            objectId: previous.objectId,
+          })
+          continue
+        }
+
+        if (previous?.status === "submitted" && !retryUnconfirmed) {
+          report.push({
+            row: rowNumber,
+            name: row.name,
+            status: "unconfirmed",
+            error: `Signed as tx ${previous.txId} but the result was never recorded${previous.error ? ` (${previous.error})` : ""}. Re-run with retryUnconfirmed=true to check whether it landed and re-submit it if not.`,
+          })
+          continue
+        }
+
+        if (previous?.status === "submitted") {
+          const outcome = await resolveSubmitted(previous.txId)
+          if (outcome.status === "minted") {
+            const { itemId, objectId } = outcome
+            await journal.record({ ...base, status: "minted", itemImage: previous.itemImage, txId: previous.txId, itemId, objectId })
+            report.push({ row: rowNumber, name: row.name, status: "minted", itemId, objectId })
+            continue
+          }
+          if (outcome.status === "unconfirmed") {
+            await journal.record({ ...base, status: "submitted", itemImage: previous.itemImage, txId: previous.txId, error: outcome.error })
+            report.push({ row: rowNumber, name: row.name, status: "unconfirmed", error: outcome.error })
+            continue
+          }
+        }
+
+        let signed = false
+        try {
+          const targetCollectionId = row.collectionId ?? collectionId
+          if (!targetCollectionId) {
+            throw new Error("No collectionId in the row and no default collectionId given")
+          }
+
+          let itemImage = row.itemImage ?? previous?.itemImage
+          if (!itemImage && row.imagePath) {
+            itemImage = await uploadItemImage(client, row.imagePath)
+            await journal.record({ ...base, status: "uploaded", itemImage })
+          }
+
+          // Each row waits its turn with any other transactions of this account
+          const { prepared, result } = await transactions.enqueue(async () => {
+            const prepared = await client.post("/api/v1/items/mint/prepare", {
+              collectionId: targetCollectionId,
+              name: row.name,
+              description: row.description,
+              quantity: row.quantity,
+              redeemCode: row.redeemCode,
+              redeemUrl: row.redeemUrl,
+              itemImage,
+              attributes: row.attributes,
+            }, txResponseSchema)
+
+            const result = await transactions.execute({
+              tool: "bulk_mint_items",
+              prepared,
+              params: { manifestPath, row: rowNumber, collectionId: targetCollectionId, name: row.name },
+              executePath: "/api/v1/items/mint/execute",
+              existing: { kind: "item", collectionId: targetCollectionId, name: row.name, redeemCode: row.redeemCode },
+              resultSchema: mintItemResponseSchema,
+              format: (minted: MintItemResponse) => ({ itemId: minted.itemId, objectId: minted.objectId }),
+              onSigned: async () => {
+                signed = true
+                await journal.record({ ...base, status: "submitted", itemImage, txId: prepared.txId })
               },
-              null,
-              2
-            ),
+            })
+
+            return { prepared, result }
+          }, extra)
+
+          const { itemId, objectId } = mintedIds(result)
+          await journal.record({ ...base, status: "minted", itemImage, txId: prepared.txId, itemId, objectId })
+          report.push({ row: rowNumber, name: row.name, status: "minted", itemId, objectId })
+        } catch (err) {
+          const error = (err as Error).message
+          // Once signed, the mint may have landed even though execute failed
+          const status = signed ? "submitted" : "failed"
+          const last = journal.get(rowNumber)
+          await journal.record({ ...base, status, itemImage: last?.itemImage, txId: signed ? last?.txId : undefined, error })
+          report.push({ row: rowNumber, name: row.name, status: signed ? "unconfirmed" : "failed", error })
+        }
+      }
+
+      const count = (status: BulkMintRowReport["status"]) =>
+        report.filter((r) => r.status === status).length
+
+      const result = {
+        journalPath: journal.path,
+        total: rows.length,
+        minted: count("minted"),
+        alreadyMinted: count("already_minted"),
+        failed: count("failed"),
+        unconfirmed: count("unconfirmed"),
+        rows: report,
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // transfer_item
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "transfer_item",
+    {
+      description: "[Personal] Sends one of your NFT items to another wallet, e.g. to deliver a reward to a player. Checks that the recipient is a registered Fortem member and that the item is not listed or in a pending offer. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        itemId: z.number().int().positive().describe("ID of the item to send"),
+        recipientAddress: z
+          .string()
+          .refine((value) => isValidSuiAddress(normalizeSuiAddress(value)), "recipientAddress must be a Sui address")
+          .describe("Sui wallet address of the recipient (starts with 0x)"),
+        allowNonMember: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Send even if the recipient is not a registered Fortem member (default: refuse)"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        itemId: z.number(),
+        objectId: z.string(),
+        recipientAddress: z.string(),
+        recipientIsMember: z.boolean(),
+        transferredAt: z.string(),
+        warning: z.string(),
+      }),
+    },
+    async ({ account, itemId, recipientAddress, allowNonMember, dryRun }, extra) => {
+      const { client, transactions } = accounts.get(account)
+
+      const recipient = normalizeSuiAddress(recipientAddress)
+      if (recipient === normalizeSuiAddress(transactions.getSignerAddress())) {
+        throw new ToolError("VALIDATION_ERROR", "recipientAddress is this wallet; nothing to transfer.", "Pass the address of the wallet that should receive the item.")
+      }
+
+      // Same membership check as verify_member
+      const { exists: isMember } = await client.post("/api/v1/auth/check-wallet", {
+        walletAddress: recipient,
+      }, checkWalletResponseSchema)
+      if (!isMember && !allowNonMember) {
+        throw new ToolError(
+          "NOT_A_MEMBER",
+          `${recipient} is not a registered Fortem member, so the item would not show up in their Fortem inventory.`,
+          "Ask them to sign up at https://fortem.gg, or pass allowNonMember=true to send anyway."
+        )
+      }
+
+      const detail = await client.get(`/api/v1/items/${itemId}`, itemDetailSchema)
+      if (normalizeSuiAddress(detail.details.ownerAddress) !== normalizeSuiAddress(transactions.getSignerAddress())) {
+        throw new ToolError("ITEM_NOT_OWNED", `Item ${itemId} is not owned by this wallet.`)
+      }
+      if (detail.status === "KIOSK_LISTED") {
+        throw new ToolError("ITEM_BUSY", `Item ${itemId} is listed for sale.`, "Run unlist_item first, then transfer it.")
+      }
+      if (detail.status === "OFFER_PENDING") {
+        throw new ToolError(
+          "ITEM_BUSY",
+          `Item ${itemId} is part of a pending swap offer.`,
+          "Find the offer with get_my_offers and cancel_offer or resolve it first."
+        )
+      }
+      if (detail.status !== "MINTED") {
+        throw new ToolError("ITEM_BUSY", `Item ${itemId} cannot be transferred while its status is ${detail.status}.`)
+      }
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post(`/api/v1/items/${itemId}/transfer/prepare`, {
+          recipientAddress: recipient,
+        }, txResponseSchema)
+
+        const tx = {
+          tool: "transfer_item",
+          prepared,
+          params: { itemId, recipientAddress: recipient, allowNonMember },
+          executePath: "/api/v1/items/transfer/execute",
+          existing: { kind: "itemState", itemId, ownerAddress: recipient } as const,
+          recipients: [recipient],
+          resultSchema: transferItemResponseSchema,
+          format: (result: TransferItemResponse) => ({
+            success: true,
+            itemId: result.itemId,
+            objectId: result.objectId,
+            recipientAddress: result.recipientAddress,
+            recipientIsMember: isMember,
+            transferredAt: result.transferredAt,
+            ...(isMember ? {} : { warning: "Recipient is not a registered Fortem member." }),
+          }),
+        }
+
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
       }
     }
   )
@@ -225,31 +544,72 @@ export function registerItemTools(
   // ──────────────────────────────────────────────
   // get_my_items
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "get_my_items",
-    "[Personal] Retrieves your own NFT item inventory. Automatically filters to only your items based on the JWT token.",
     {
-      status: z
-        .enum(["PROCESSING", "MINTED", "REDEEMED", "OFFER_PENDING", "KIOSK_LISTED"])
-        .optional()
-        .describe("Item status filter"),
-      collectionIds: z
-        .array(z.number().int().positive())
-        .optional()
-        .describe("Filter by specific collection ID list"),
-      query: z.string().optional().describe("Search query for item name"),
-      skip: z.number().int().min(0).optional().default(0).describe("Pagination offset"),
-      take: z.number().int().min(1).max(100).optional().default(10).describe("Number of results to fetch (max 100)"),
+      description: "[Personal] Retrieves your own NFT item inventory. Automatically filters to only your items based on the JWT token. Reports totalItems and nextSkip; pass all=true to fetch every page.",
+      inputSchema: {
+        status: z
+          .enum(["PROCESSING", "MINTED", "REDEEMED", "OFFER_PENDING", "KIOSK_LISTED"])
+          .optional()
+          .describe("Item status filter"),
+        collectionIds: z
+          .array(z.number().int().positive())
+          .optional()
+          .describe("Filter by specific collection ID list"),
+        query: z.string().optional().describe("Search query for item name"),
+        skip: z.number().int().min(0).optional().default(0).describe("Pagination offset"),
+        take: z.number().int().min(1).max(100).optional().default(10).describe("Number of results to fetch (max 100)"),
+        all: z.boolean().optional().default(false).describe("Fetch every page instead of one (skip/take are ignored)"),
+        maxItems: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_ALL_ITEMS)
+          .optional()
+          .default(DEFAULT_ALL_ITEMS)
+          .describe(`Safety cap for all=true (default ${DEFAULT_ALL_ITEMS}, max ${MAX_ALL_ITEMS})`),
+        account: accountParam,
+      },
+      outputSchema: {
+        items: z.array(itemSearchItemSchema),
+        totalItems: z.number().optional(),
+        truncated: z.boolean().optional(),
+        nextSkip: z.number().nullable(),
+      },
     },
-    async ({ status, collectionIds, query, skip, take }) => {
+    async ({ account, status, collectionIds, query, skip, take, all, maxItems }) => {
+      const { client } = accounts.get(account)
+
       const params = new URLSearchParams()
       if (query) params.set("query", query)
       if (status) params.set("status", status)
       if (collectionIds?.length) params.set("collectionIds", collectionIds.join(","))
-      params.set("skip", String(skip ?? 0))
-      params.set("take", String(take ?? 10))
 
-      const result = await client.get<ItemSearchItem[]>(`/api/v1/items?${params}`)
+      let result
+      if (all) {
+        const pages = await client.getAllPages(
+          "/api/v1/items",
+          params,
+          maxItems ?? DEFAULT_ALL_ITEMS,
+          itemSearchItemSchema
+        )
+        result = {
+          items: pages.data,
+          totalItems: pages.totalItems,
+          truncated: pages.truncated,
+          nextSkip: pages.nextSkip,
+        }
+      } else {
+        params.set("skip", String(skip ?? 0))
+        params.set("take", String(take ?? 10))
+        const page = await client.getPage("/api/v1/items", params, itemSearchItemSchema)
+        result = {
+          items: page.data,
+          totalItems: page.totalItems,
+          nextSkip: page.nextSkip,
+        }
+      }
 
       return {
         content: [
@@ -258,6 +618,7 @@ export function registerItemTools(
             text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result,
       }
     }
   )
@@ -265,14 +626,20 @@ export function registerItemTools(
   // ──────────────────────────────────────────────
   // get_item_detail
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "get_item_detail",
-    "[Personal] Retrieves detailed information for a specific NFT item, including price, attributes, and on-chain objectId.",
     {
-      itemId: z.number().int().positive().describe("Item ID"),
+      description: "[Personal] Retrieves detailed information for a specific NFT item, including price, attributes, and on-chain objectId.",
+      inputSchema: {
+        itemId: z.number().int().positive().describe("Item ID"),
+        account: accountParam,
+      },
+      outputSchema: itemDetailSchema,
     },
-    async ({ itemId }) => {
-      const result = await client.get<ItemDetail>(`/api/v1/items/${itemId}`)
+    async ({ account, itemId }) => {
+      const { client } = accounts.get(account)
+
+      const result = await client.get(`/api/v1/items/${itemId}`, itemDetailSchema)
 
       return {
         content: [
@@ -281,6 +648,7 @@ export function registerItemTools(
             text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result,
       }
     }
   )
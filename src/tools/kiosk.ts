@@ -1,83 +1,88 @@
 import { z } from "zod"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
-import type { FortemClient } from "../client.js"
-import type { Signer } from "../signer.js"
-import type { TxResponse } from "../types.js"
-
-interface KioskExistsResponse {
-  exists: boolean
-}
-
-interface CreateKioskResponse {
-  kioskId: number
-  objectId: string
-}
+import { accountParam, type AccountRegistry } from "../account.js"
+import {
+  createKioskResponseSchema,
+  kioskExistsResponseSchema,
+  txResponseSchema,
+  type CreateKioskResponse,
+} from "../schemas.js"
+import { signingOutputSchema } from "../transaction.js"
 
 export function registerKioskTools(
   server: McpServer,
-  client: FortemClient,
-  signer: Signer
+  accounts: AccountRegistry
 ): void {
   // ──────────────────────────────────────────────
   // ensure_kiosk
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "ensure_kiosk",
-    "[Personal] Creates a kiosk for your account if one does not exist. Skips creation if it already exists (idempotent). A kiosk is required to list items for sale.",
-    {},
-    async () => {
-      // 1. Check if kiosk exists
-      const { exists } = await client.get<KioskExistsResponse>("/api/v1/kiosks/exists")
+    {
+      description: "[Personal] Creates a kiosk for your account if one does not exist. Skips creation if it already exists (idempotent). A kiosk is required to list items for sale. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        exists: z.boolean(),
+        created: z.boolean(),
+        kioskId: z.number(),
+        objectId: z.string(),
+        message: z.string(),
+      }),
+    },
+    async ({ account, dryRun }, extra) => {
+      const { client, transactions } = accounts.get(account)
 
-      if (exists) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  exists: true,
-                  created: false,
-                  message: "Kiosk already exists, skipped creation",
-                },
-                null,
-                2
-              ),
-            },
-          ],
+      // Queued with the creation itself so parallel calls never create two kiosks
+      const output = await transactions.enqueue(async () => {
+        // 1. Check if kiosk exists
+        const { exists } = await client.get("/api/v1/kiosks/exists", kioskExistsResponseSchema)
+
+        if (exists) {
+          return {
+            exists: true,
+            created: false,
+            message: "Kiosk already exists, skipped creation",
+          }
         }
-      }
 
-      // 2. prepare (no request body; sponsored transaction — server covers gas)
-      const prepared = await client.post<TxResponse>("/api/v1/kiosks/create/prepare", {})
+        // 2. prepare (no request body; sponsored transaction — server covers gas)
+        const prepared = await client.post("/api/v1/kiosks/create/prepare", {}, txResponseSchema)
 
-      // 3. User signature (sponsorSignature is handled automatically by the server)
-      const signature = await signer.signTransaction(prepared.txBytes)
+        const tx = {
+          tool: "ensure_kiosk",
+          prepared,
+          executePath: "/api/v1/kiosks/create/execute",
+          existing: { kind: "kiosk" } as const,
+          resultSchema: createKioskResponseSchema,
+          format: (result: CreateKioskResponse) => ({
+            exists: false,
+            created: true,
+            kioskId: result.kioskId,
+            objectId: result.objectId,
+            message: "Kiosk created successfully",
+          }),
+        }
 
-      // 4. execute
-      const result = await client.post<CreateKioskResponse>("/api/v1/kiosks/create/execute", {
-        txId: prepared.txId,
-        txBytes: prepared.txBytes,
-        signature,
-      })
+        // 3. User signature (sponsorSignature is handled automatically by the server)
+        // 4. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              {
-                exists: false,
-                created: true,
-                kioskId: result.kioskId,
-                objectId: result.objectId,
-                message: "Kiosk created successfully",
-              },
-              null,
-              2
-            ),
+            text: JSON.stringify(output, null, 2),
           },
         ],
+        structuredContent: output,
       }
     }
   )
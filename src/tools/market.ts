@@ -1,102 +1,409 @@
 import { z } from "zod"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
-import type { FortemClient } from "../client.js"
-import type { Signer } from "../signer.js"
-import type { TxResponse } from "../types.js"
-
-interface KioskExistsResponse {
-  exists: boolean
-}
-
-interface ListItemResponse {
-  itemId: number
-  kioskItemId: number
-  sellingPrice: number
-  sellingTokenSymbol: string
-  enableTrading: boolean
-  listedAt: string
-}
+import { accountParam, type Account, type AccountRegistry } from "../account.js"
+import { ToolError } from "../errors.js"
+import {
+  buyItemResponseSchema,
+  itemDetailSchema,
+  kioskExistsResponseSchema,
+  listItemResponseSchema,
+  txResponseSchema,
+  unlistItemResponseSchema,
+  updateListingResponseSchema,
+  type BuyItemResponse,
+  type ItemDetail,
+  type ListItemResponse,
+  type UnlistItemResponse,
+  type UpdateListingResponse,
+} from "../schemas.js"
+import { signingOutputSchema } from "../transaction.js"
 
 export function registerMarketTools(
   server: McpServer,
-  client: FortemClient,
-  signer: Signer
+  accounts: AccountRegistry
 ): void {
+  // Loads the item and confirms it is currently listed in our own kiosk
+  async function getOwnListing(
+    { client, transactions }: Account,
+    itemId: number
+  ): Promise<ItemDetail & { kioskItemId: number }> {
+    const detail = await client.get(`/api/v1/items/${itemId}`, itemDetailSchema)
+
+    if (detail.status !== "KIOSK_LISTED" || detail.kioskItemId == null) {
+      throw new ToolError(
+        "ITEM_NOT_LISTED",
+        `Item ${itemId} is not listed for sale (status: ${detail.status}).`,
+        "Use list_item to list it first."
+      )
+    }
+
+    const owner = normalizeSuiAddress(detail.details.ownerAddress)
+    if (owner !== normalizeSuiAddress(transactions.getSignerAddress())) {
+      throw new ToolError("ITEM_NOT_OWNED", `Item ${itemId} is listed by ${detail.details.ownerAddress}, not by this wallet.`)
+    }
+
+    return { ...detail, kioskItemId: detail.kioskItemId }
+  }
+
   // ──────────────────────────────────────────────
   // list_item
   // ──────────────────────────────────────────────
-  server.tool(
+  server.registerTool(
     "list_item",
-    "[Personal] Lists one of your NFT items for sale in your kiosk. Run ensure_kiosk first if you don't have a kiosk yet.",
     {
-      itemId: z.number().int().positive().describe("ID of the item to list for sale"),
-      sellingPrice: z
-        .number()
-        .min(0)
-        .describe("Selling price (set to 0 with enableTrading=true for trade-only listing)"),
-      sellingTokenSymbol: z
-        .enum(["SUI", "USDC", "USDT"])
-        .optional()
-        .default("USDC")
-        .describe("Payment token (default: USDC)"),
-      enableTrading: z.boolean().describe("Whether to allow item swapping (trade)"),
+      description: "[Personal] Lists one of your NFT items for sale in your kiosk. Run ensure_kiosk first if you don't have a kiosk yet. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        itemId: z.number().int().positive().describe("ID of the item to list for sale"),
+        sellingPrice: z
+          .number()
+          .min(0)
+          .describe("Selling price (set to 0 with enableTrading=true for trade-only listing)"),
+        sellingTokenSymbol: z
+          .enum(["SUI", "USDC", "USDT"])
+          .optional()
+          .default("USDC")
+          .describe("Payment token (default: USDC)"),
+        enableTrading: z.boolean().describe("Whether to allow item swapping (trade)"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        itemId: z.number(),
+        kioskItemId: z.number(),
+        sellingPrice: z.number(),
+        sellingTokenSymbol: z.string(),
+        enableTrading: z.boolean(),
+        listedAt: z.string(),
+      }),
     },
-    async ({ itemId, sellingPrice, sellingTokenSymbol, enableTrading }) => {
+    async ({ account, itemId, sellingPrice, sellingTokenSymbol, enableTrading, dryRun }, extra) => {
+      const { client, transactions } = accounts.get(account)
+
       // Check kiosk exists
-      const { exists } = await client.get<KioskExistsResponse>("/api/v1/kiosks/exists")
+      const { exists } = await client.get("/api/v1/kiosks/exists", kioskExistsResponseSchema)
       if (!exists) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: false,
-                  error: "Kiosk does not exist. Please run ensure_kiosk first.",
-                },
-                null,
-                2
-              ),
-            },
-          ],
+        throw new ToolError("KIOSK_MISSING", "Kiosk does not exist. Please run ensure_kiosk first.")
+      }
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post(
+          `/api/v1/items/${itemId}/list/prepare`,
+          { sellingPrice, sellingTokenSymbol: sellingTokenSymbol ?? "USDC", enableTrading },
+          txResponseSchema
+        )
+
+        const tx = {
+          tool: "list_item",
+          prepared,
+          params: { itemId, sellingPrice, sellingTokenSymbol, enableTrading },
+          executePath: "/api/v1/items/list/execute",
+          existing: { kind: "itemState", itemId, status: "KIOSK_LISTED" } as const,
+          resultSchema: listItemResponseSchema,
+          format: (result: ListItemResponse) => ({
+            success: true,
+            itemId: result.itemId,
+            kioskItemId: result.kioskItemId,
+            sellingPrice: result.sellingPrice,
+            sellingTokenSymbol: result.sellingTokenSymbol,
+            enableTrading: result.enableTrading,
+            listedAt: result.listedAt,
+          }),
         }
+
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
       }
+    }
+  )
 
-      // 1. prepare
-      const prepared = await client.post<TxResponse>(
-        `/api/v1/items/${itemId}/list/prepare`,
-        { sellingPrice, sellingTokenSymbol: sellingTokenSymbol ?? "USDC", enableTrading }
-      )
+  // ──────────────────────────────────────────────
+  // unlist_item
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "unlist_item",
+    {
+      description: "[Personal] Takes one of your KIOSK_LISTED items off sale. The item stays in your kiosk. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        itemId: z.number().int().positive().describe("ID of the listed item"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        itemId: z.number(),
+        kioskItemId: z.number(),
+        previousPrice: z.string(),
+        previousTokenSymbol: z.string(),
+        unlistedAt: z.string(),
+      }),
+    },
+    async ({ account, itemId, dryRun }, extra) => {
+      const wallet = accounts.get(account)
+      const { client, transactions } = wallet
+
+      const listing = await getOwnListing(wallet, itemId)
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post(
+          `/api/v1/items/${itemId}/unlist/prepare`,
+          { kioskItemId: listing.kioskItemId },
+          txResponseSchema
+        )
 
-      // 2. sign
-      const signature = await signer.signTransaction(prepared.txBytes)
+        const tx = {
+          tool: "unlist_item",
+          prepared,
+          params: { itemId, kioskItemId: listing.kioskItemId },
+          executePath: "/api/v1/items/unlist/execute",
+          existing: { kind: "itemState", itemId, notStatus: "KIOSK_LISTED" } as const,
+          resultSchema: unlistItemResponseSchema,
+          format: (result: UnlistItemResponse) => ({
+            success: true,
+            itemId: result.itemId,
+            kioskItemId: result.kioskItemId,
+            previousPrice: listing.buy.price,
+            previousTokenSymbol: listing.buy.priceTokenSymbol,
+            unlistedAt: result.unlistedAt,
+          }),
+        }
+
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // update_listing
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "update_listing",
+    {
+      description: "[Personal] Changes the price, payment token or trade setting of one of your KIOSK_LISTED items. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        itemId: z.number().int().positive().describe("ID of the listed item"),
+        sellingPrice: z
+          .number()
+          .min(0)
+          .describe("New selling price (set to 0 with enableTrading=true for trade-only listing)"),
+        sellingTokenSymbol: z
+          .enum(["SUI", "USDC", "USDT"])
+          .optional()
+          .describe("New payment token (default: keep the current one)"),
+        enableTrading: z.boolean().describe("Whether to allow item swapping (trade)"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        itemId: z.number(),
+        kioskItemId: z.number(),
+        previousPrice: z.string(),
+        previousTokenSymbol: z.string(),
+        sellingPrice: z.number(),
+        sellingTokenSymbol: z.string(),
+        enableTrading: z.boolean(),
+        updatedAt: z.string(),
+      }),
+    },
+    async ({ account, itemId, sellingPrice, sellingTokenSymbol, enableTrading, dryRun }, extra) => {
+      const wallet = accounts.get(account)
+      const { client, transactions } = wallet
+
+      const listing = await getOwnListing(wallet, itemId)
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post(
+          `/api/v1/items/${itemId}/list/update/prepare`,
+          {
+            kioskItemId: listing.kioskItemId,
+            sellingPrice,
+            sellingTokenSymbol: sellingTokenSymbol ?? listing.buy.priceTokenSymbol,
+            enableTrading,
+          },
+          txResponseSchema
+        )
+
+        const tx = {
+          tool: "update_listing",
+          prepared,
+          params: { itemId, sellingPrice, sellingTokenSymbol, enableTrading },
+          executePath: "/api/v1/items/list/update/execute",
+          existing: {
+            kind: "itemState",
+            itemId,
+            price: sellingPrice,
+            priceTokenSymbol: sellingTokenSymbol ?? listing.buy.priceTokenSymbol,
+          } as const,
+          resultSchema: updateListingResponseSchema,
+          format: (result: UpdateListingResponse) => ({
+            success: true,
+            itemId: result.itemId,
+            kioskItemId: result.kioskItemId,
+            previousPrice: listing.buy.price,
+            previousTokenSymbol: listing.buy.priceTokenSymbol,
+            sellingPrice: result.sellingPrice,
+            sellingTokenSymbol: result.sellingTokenSymbol,
+            enableTrading: result.enableTrading,
+            updatedAt: result.updatedAt,
+          }),
+        }
+
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // buy_item
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "buy_item",
+    {
+      description: "[Personal] Buys a listed item from another user's kiosk. Refuses if the listed price is above maxPrice, or if the price changed between reading the item and preparing the purchase. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        itemId: z.number().int().positive().describe("ID of the item to buy"),
+        maxPrice: z.number().min(0).describe("Highest price you are willing to pay, in the listing's token"),
+        priceTokenSymbol: z
+          .enum(["SUI", "USDC", "USDT"])
+          .optional()
+          .describe("Expected payment token; refuse if the listing uses a different one"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        itemId: z.number(),
+        objectId: z.string(),
+        price: z.string(),
+        priceTokenSymbol: z.string(),
+        purchasedAt: z.string(),
+      }),
+    },
+    async ({ account, itemId, maxPrice, priceTokenSymbol, dryRun }, extra) => {
+      const { client, transactions } = accounts.get(account)
+
+      const detail = await client.get(`/api/v1/items/${itemId}`, itemDetailSchema)
+
+      if (detail.status !== "KIOSK_LISTED" || detail.kioskItemId == null) {
+        throw new ToolError("ITEM_NOT_LISTED", `Item ${itemId} is not listed for sale (status: ${detail.status}).`)
+      }
+      if (normalizeSuiAddress(detail.details.ownerAddress) === normalizeSuiAddress(transactions.getSignerAddress())) {
+        throw new ToolError("ITEM_ALREADY_OWNED", `Item ${itemId} is already yours.`)
+      }
+
+      const listedPrice = Number(detail.buy.price)
+      if (priceTokenSymbol && detail.buy.priceTokenSymbol !== priceTokenSymbol) {
+        throw new ToolError(
+          "VALIDATION_ERROR",
+          `Item ${itemId} is priced in ${detail.buy.priceTokenSymbol}, not ${priceTokenSymbol}.`,
+          `Pass priceTokenSymbol "${detail.buy.priceTokenSymbol}" (with a maxPrice in that token) or omit it.`
+        )
+      }
+      if (!(listedPrice <= maxPrice)) {
+        throw new ToolError(
+          "PRICE_ABOVE_LIMIT",
+          `Item ${itemId} costs ${detail.buy.price} ${detail.buy.priceTokenSymbol}, above maxPrice ${maxPrice}.`
+        )
+      }
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post(`/api/v1/items/${itemId}/buy/prepare`, {
+          kioskItemId: detail.kioskItemId,
+        }, txResponseSchema)
+
+        // The listing may have been repriced between the detail read and prepare
+        if (Number(prepared.cost) !== listedPrice || prepared.costTokenSymbol !== detail.buy.priceTokenSymbol) {
+          throw new ToolError(
+            "PRICE_CHANGED",
+            `Price changed for item ${itemId}: listed at ${detail.buy.price} ${detail.buy.priceTokenSymbol}, ` +
+            `but the prepared purchase costs ${prepared.cost} ${prepared.costTokenSymbol}. Nothing was signed.`,
+            "Check the new price with get_item_detail and run buy_item again with a maxPrice that covers it."
+          )
+        }
+
+        const tx = {
+          tool: "buy_item",
+          prepared,
+          params: { itemId, maxPrice, priceTokenSymbol },
+          executePath: "/api/v1/items/buy/execute",
+          existing: { kind: "itemState", itemId, ownerAddress: transactions.getSignerAddress() } as const,
+          resultSchema: buyItemResponseSchema,
+          format: (result: BuyItemResponse) => ({
+            success: true,
+            itemId: result.itemId,
+            objectId: result.objectId,
+            price: result.price,
+            priceTokenSymbol: result.priceTokenSymbol,
+            purchasedAt: result.purchasedAt,
+          }),
+        }
 
-      // 3. execute
-      const result = await client.post<ListItemResponse>("/api/v1/items/list/execute", {
-        txId: prepared.txId,
-        txBytes: prepared.txBytes,
-        signature,
-      })
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              {
-                success: true,
-                itemId: result.itemId,
-                kioskItemId: result.kioskItemId,
-                sellingPrice: result.sellingPrice,
-                sellingTokenSymbol: result.sellingTokenSymbol,
-                enableTrading: result.enableTrading,
-                listedAt: result.listedAt,
-              },
-              null,
-              2
-            ),
+            text: JSON.stringify(output, null, 2),
           },
         ],
+        structuredContent: output,
       }
     }
   )
@@ -0,0 +1,287 @@
+import { z } from "zod"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { accountParam, type Account, type AccountRegistry } from "../account.js"
+import { ToolError } from "../errors.js"
+import type { ToolExtra } from "../queue.js"
+import {
+  itemDetailSchema,
+  itemSearchItemSchema,
+  offerResponseSchema,
+  offerSchema,
+  txResponseSchema,
+  type OfferResponse,
+} from "../schemas.js"
+import { signingOutputSchema } from "../transaction.js"
+
+type OfferAction = "accept" | "reject" | "cancel"
+
+export function registerOfferTools(
+  server: McpServer,
+  accounts: AccountRegistry
+): void {
+  const dryRunParam = z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Preview only: return the cost and a confirmationId without signing")
+
+  const offerOutputSchema = signingOutputSchema({
+    success: z.boolean(),
+    offerId: z.number(),
+    status: z.string(),
+    offeredItemId: z.number(),
+    targetItemId: z.number(),
+  })
+
+  const offerPageSchema = z.object({
+    offers: z.array(offerSchema),
+    totalItems: z.number().optional(),
+    nextSkip: z.number().nullable(),
+  })
+
+  function isMine({ transactions }: Account, ownerAddress: string): boolean {
+    return normalizeSuiAddress(ownerAddress) === normalizeSuiAddress(transactions.getSignerAddress())
+  }
+
+  // accept / reject / cancel share the same prepare → execute shape
+  async function respondToOffer(
+    { client, transactions }: Account,
+    action: OfferAction,
+    offerId: number,
+    dryRun: boolean,
+    extra: ToolExtra
+  ) {
+    const output = await transactions.enqueue(async () => {
+      const prepared = await client.post(`/api/v1/offers/${offerId}/${action}/prepare`, {}, txResponseSchema)
+
+      const tx = {
+        tool: `${action}_offer`,
+        prepared,
+        params: { offerId },
+        executePath: `/api/v1/offers/${action}/execute`,
+        resultSchema: offerResponseSchema,
+        format: (result: OfferResponse) => ({
+          success: true,
+          offerId: result.offerId,
+          status: result.status,
+          offeredItemId: result.offeredItemId,
+          targetItemId: result.targetItemId,
+        }),
+      }
+
+      return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+    }, extra)
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    }
+  }
+
+  // ──────────────────────────────────────────────
+  // make_swap_offer
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "make_swap_offer",
+    {
+      description: "[Personal] Offers one of your items in exchange for another user's trade-enabled listing. Your item is held until the offer is accepted, rejected or cancelled. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        offeredItemId: z.number().int().positive().describe("ID of your item to offer"),
+        targetItemId: z.number().int().positive().describe("ID of the listed item you want (must be listed with enableTrading=true)"),
+        dryRun: dryRunParam,
+        account: accountParam,
+      },
+      outputSchema: offerOutputSchema,
+    },
+    async ({ account, offeredItemId, targetItemId, dryRun }, extra) => {
+      const wallet = accounts.get(account)
+      const { client, transactions } = wallet
+
+      const [offered, target] = await Promise.all([
+        client.get(`/api/v1/items/${offeredItemId}`, itemDetailSchema),
+        client.get(`/api/v1/items/${targetItemId}`, itemDetailSchema),
+      ])
+
+      if (!isMine(wallet, offered.details.ownerAddress)) {
+        throw new ToolError("ITEM_NOT_OWNED", `Item ${offeredItemId} is not owned by this wallet.`)
+      }
+      if (offered.status !== "MINTED") {
+        throw new ToolError("ITEM_BUSY", `Item ${offeredItemId} cannot be offered while its status is ${offered.status}.`)
+      }
+      if (target.status !== "KIOSK_LISTED" || target.kioskItemId == null) {
+        throw new ToolError(
+          "ITEM_NOT_LISTED",
+          `Item ${targetItemId} is not listed (status: ${target.status}).`,
+          "Swap offers can only target listed items. Check its status with get_item_detail."
+        )
+      }
+      if (isMine(wallet, target.details.ownerAddress)) {
+        throw new ToolError("ITEM_ALREADY_OWNED", `Item ${targetItemId} is already yours.`, "Offer for an item another wallet has listed.")
+      }
+
+      // Only the search result carries the listing's swap flag; an offer on a
+      // sale-only listing could never be accepted but would still cost gas
+      const search = await client.getPage("/api/v1/items", new URLSearchParams({
+        query: target.name,
+        collectionIds: String(target.collection.id),
+        skip: "0",
+        take: "50",
+      }), itemSearchItemSchema)
+      const listing = search.data.find((item) => item.id === targetItemId)?.kiosk
+      if (listing && !listing.isItemSwap) {
+        throw new ToolError("TRADING_DISABLED", `Item ${targetItemId} is listed without accepting swap offers.`)
+      }
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post("/api/v1/offers/create/prepare", {
+          offeredItemId,
+          targetKioskItemId: target.kioskItemId,
+        }, txResponseSchema)
+
+        const tx = {
+          tool: "make_swap_offer",
+          prepared,
+          params: { offeredItemId, targetItemId },
+          executePath: "/api/v1/offers/create/execute",
+          resultSchema: offerResponseSchema,
+          format: (result: OfferResponse) => ({
+            success: true,
+            offerId: result.offerId,
+            status: result.status,
+            offeredItemId: result.offeredItemId,
+            targetItemId: result.targetItemId,
+          }),
+        }
+
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // get_my_offers
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "get_my_offers",
+    {
+      description: "[Personal] Retrieves swap offers you received on your listings (incoming) and offers you made (outgoing).",
+      inputSchema: {
+        direction: z
+          .enum(["incoming", "outgoing"])
+          .optional()
+          .describe("Only incoming or only outgoing offers (default: both)"),
+        status: z
+          .enum(["PENDING", "ACCEPTED", "REJECTED", "CANCELLED"])
+          .optional()
+          .describe("Offer status filter"),
+        skip: z.number().int().min(0).optional().default(0).describe("Pagination offset"),
+        take: z.number().int().min(1).max(100).optional().default(10).describe("Number of results to fetch (max 100)"),
+        account: accountParam,
+      },
+      outputSchema: {
+        incoming: offerPageSchema.optional(),
+        outgoing: offerPageSchema.optional(),
+      },
+    },
+    async ({ account, direction, status, skip, take }) => {
+      const { client } = accounts.get(account)
+
+      const fetchOffers = async (dir: "incoming" | "outgoing") => {
+        const params = new URLSearchParams()
+        params.set("direction", dir)
+        if (status) params.set("status", status)
+        params.set("skip", String(skip ?? 0))
+        params.set("take", String(take ?? 10))
+        const page = await client.getPage("/api/v1/offers", params, offerSchema)
+        return { offers: page.data, totalItems: page.totalItems, nextSkip: page.nextSkip }
+      }
+
+      const result = {
+        incoming: direction === "outgoing" ? undefined : await fetchOffers("incoming"),
+        outgoing: direction === "incoming" ? undefined : await fetchOffers("outgoing"),
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // accept_offer
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "accept_offer",
+    {
+      description: "[Personal] Accepts an incoming swap offer: your listed item and the offered item change owners. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        offerId: z.number().int().positive().describe("ID of the incoming offer (from get_my_offers)"),
+        dryRun: dryRunParam,
+        account: accountParam,
+      },
+      outputSchema: offerOutputSchema,
+    },
+    async ({ account, offerId, dryRun }, extra) =>
+      respondToOffer(accounts.get(account), "accept", offerId, dryRun ?? false, extra)
+  )
+
+  // ──────────────────────────────────────────────
+  // reject_offer
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "reject_offer",
+    {
+      description: "[Personal] Rejects an incoming swap offer and returns the offered item to its owner. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        offerId: z.number().int().positive().describe("ID of the incoming offer (from get_my_offers)"),
+        dryRun: dryRunParam,
+        account: accountParam,
+      },
+      outputSchema: offerOutputSchema,
+    },
+    async ({ account, offerId, dryRun }, extra) =>
+      respondToOffer(accounts.get(account), "reject", offerId, dryRun ?? false, extra)
+  )
+
+  // ──────────────────────────────────────────────
+  // cancel_offer
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "cancel_offer",
+    {
+      description: "[Personal] Cancels one of your outgoing swap offers and releases your offered item. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        offerId: z.number().int().positive().describe("ID of your outgoing offer (from get_my_offers)"),
+        dryRun: dryRunParam,
+        account: accountParam,
+      },
+      outputSchema: offerOutputSchema,
+    },
+    async ({ account, offerId, dryRun }, extra) =>
+      respondToOffer(accounts.get(account), "cancel", offerId, dryRun ?? false, extra)
+  )
+}
@@ -0,0 +1,242 @@
+import { z } from "zod"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { accountParam, type AccountRegistry } from "../account.js"
+import { ToolError } from "../errors.js"
+import {
+  checkRedeemCodeResponseSchema,
+  itemDetailSchema,
+  itemSearchItemSchema,
+  redeemItemResponseSchema,
+  txResponseSchema,
+  type ItemSearchItem,
+  type RedeemItemResponse,
+} from "../schemas.js"
+import { signingOutputSchema } from "../transaction.js"
+
+// Safety cap when scanning a whole collection
+const MAX_SCAN_ITEMS = 10000
+
+const redeemSummarySchema = z.object({
+  id: z.number(),
+  nftNumber: z.number(),
+  name: z.string(),
+  status: z.string(),
+})
+
+export function registerRedeemTools(
+  server: McpServer,
+  accounts: AccountRegistry
+): void {
+  // ──────────────────────────────────────────────
+  // redeem_item
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "redeem_item",
+    {
+      description: "[Personal] Redeems one of your MINTED items with its redeem code. The item's status becomes REDEEMED. Pass dryRun=true to preview the transaction first and confirm with confirm_transaction.",
+      inputSchema: {
+        itemId: z.number().int().positive().describe("ID of the item to redeem"),
+        redeemCode: z
+          .string()
+          .regex(/^\S+$/, "redeemCode must not contain spaces")
+          .describe("Redeem code set when the item was minted"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Preview only: return the cost and a confirmationId without signing"),
+        account: accountParam,
+      },
+      outputSchema: signingOutputSchema({
+        success: z.boolean(),
+        itemId: z.number(),
+        objectId: z.string(),
+        status: z.string(),
+        redeemUrl: z.string().nullish(),
+        redeemedAt: z.string(),
+      }),
+    },
+    async ({ account, itemId, redeemCode, dryRun }, extra) => {
+      const { client, transactions } = accounts.get(account)
+
+      const detail = await client.get(`/api/v1/items/${itemId}`, itemDetailSchema)
+
+      if (normalizeSuiAddress(detail.details.ownerAddress) !== normalizeSuiAddress(transactions.getSignerAddress())) {
+        throw new ToolError("ITEM_NOT_OWNED", `Item ${itemId} is not owned by this wallet.`)
+      }
+      if (detail.status === "REDEEMED") {
+        throw new ToolError("ALREADY_REDEEMED", `Item ${itemId} has already been redeemed.`)
+      }
+      if (detail.status !== "MINTED") {
+        throw new ToolError("ITEM_BUSY", `Item ${itemId} cannot be redeemed while its status is ${detail.status}.`)
+      }
+
+      const output = await transactions.enqueue(async () => {
+        // 1. prepare
+        const prepared = await client.post(`/api/v1/items/${itemId}/redeem/prepare`, {
+          redeemCode,
+        }, txResponseSchema)
+
+        const tx = {
+          tool: "redeem_item",
+          prepared,
+          params: { itemId, redeemCode },
+          executePath: "/api/v1/items/redeem/execute",
+          existing: { kind: "itemState", itemId, status: "REDEEMED" } as const,
+          resultSchema: redeemItemResponseSchema,
+          format: (result: RedeemItemResponse) => ({
+            success: true,
+            itemId: result.itemId,
+            objectId: result.objectId,
+            status: result.status,
+            redeemUrl: result.redeemUrl ?? detail.redeemUrl,
+            redeemedAt: result.redeemedAt,
+          }),
+        }
+
+        // 2. sign + 3. execute (or hold for confirm_transaction)
+        return dryRun ? transactions.hold(tx) : transactions.execute(tx)
+      }, extra)
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // check_redeem_code
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "check_redeem_code",
+    {
+      description: "[Developer] Checks whether a redeem code is valid and whether it has already been used. Use this in your game backend to validate a code a player entered before granting the reward.",
+      inputSchema: {
+        redeemCode: z
+          .string()
+          .regex(/^\S+$/, "redeemCode must not contain spaces")
+          .describe("Redeem code entered by the player"),
+        collectionId: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Restrict the check to one collection"),
+        account: accountParam,
+      },
+      outputSchema: {
+        redeemCode: z.string(),
+        valid: z.boolean(),
+        itemId: z.number().nullish(),
+        redeemed: z.boolean(),
+        message: z.string(),
+      },
+    },
+    async ({ account, redeemCode, collectionId }) => {
+      const { client } = accounts.get(account)
+
+      const result = await client.post("/api/v1/items/redeem/check", {
+        redeemCode,
+        collectionId,
+      }, checkRedeemCodeResponseSchema)
+
+      const output = {
+        redeemCode,
+        valid: result.valid,
+        itemId: result.itemId,
+        redeemed: result.redeemed,
+        message: !result.valid
+          ? "This code does not match any item."
+          : result.redeemed
+            ? "This code is valid but has already been redeemed."
+            : "This code is valid and has not been redeemed yet.",
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+        structuredContent: output,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // get_redeem_status
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "get_redeem_status",
+    {
+      description: "[Personal] Shows which items of a collection that this wallet still owns have been redeemed and which have not. The API only lists items the caller owns, so items redeemed by the players who hold them are NOT included; use check_redeem_code to check a specific code.",
+      inputSchema: {
+        collectionId: z.number().int().positive().describe("Collection ID"),
+        account: accountParam,
+      },
+      outputSchema: {
+        collectionId: z.number(),
+        // Only items the wallet still owns; there is no collection-wide item listing
+        scope: z.literal("owned_by_this_wallet"),
+        note: z.string(),
+        totalItems: z.number(),
+        truncated: z.boolean(),
+        redeemedCount: z.number(),
+        notRedeemedCount: z.number(),
+        redeemed: z.array(redeemSummarySchema),
+        notRedeemed: z.array(redeemSummarySchema),
+      },
+    },
+    async ({ account, collectionId }) => {
+      const { client } = accounts.get(account)
+
+      const params = new URLSearchParams()
+      params.set("collectionIds", String(collectionId))
+      const { data: items, truncated } = await client.getAllPages(
+        "/api/v1/items",
+        params,
+        MAX_SCAN_ITEMS,
+        itemSearchItemSchema
+      )
+
+      const summarize = (item: ItemSearchItem) => ({
+        id: item.id,
+        nftNumber: item.nftNumber,
+        name: item.name,
+        status: item.status,
+      })
+      const redeemed = items.filter((item) => item.status === "REDEEMED").map(summarize)
+      const notRedeemed = items.filter((item) => item.status !== "REDEEMED").map(summarize)
+
+      const result = {
+        collectionId,
+        scope: "owned_by_this_wallet" as const,
+        note: "Counts cover only the items this wallet still owns. Items that players hold (and usually redeemed) are not listed by the API, so this is not the whole collection's redeem status. Check individual codes with check_redeem_code.",
+        totalItems: items.length,
+        truncated,
+        redeemedCount: redeemed.length,
+        notRedeemedCount: notRedeemed.length,
+        redeemed,
+        notRedeemed,
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+}
@@ -0,0 +1,226 @@
+import { z } from "zod"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import type { Account, AccountRegistry } from "../account.js"
+import { auditEventSchema, auditLogPath, readTransactionHistory, transactionRecordSchema } from "../audit.js"
+import { ToolError } from "../errors.js"
+import type { PendingTransaction } from "../pending.js"
+
+export function registerTransactionTools(
+  server: McpServer,
+  accounts: AccountRegistry
+): void {
+  // Accounts without a usable key have signed nothing
+  function addressOf(account: Account): string | undefined {
+    try {
+      return normalizeSuiAddress(account.signer.getAddress())
+    } catch {
+      return undefined
+    }
+  }
+
+  // In per-session mode the journal and data dir are shared with other sessions;
+  // each session only sees what its own accounts signed
+  function sessionSigners(): string[] {
+    return accounts.entries().flatMap(([, account]) => addressOf(account) ?? [])
+  }
+
+  // Each account keeps its own pending store
+  async function pendingByAccount(): Promise<Array<{ name: string; account: Account; entry: PendingTransaction }>> {
+    const found: Array<{ name: string; account: Account; entry: PendingTransaction }> = []
+    for (const [name, account] of accounts.entries()) {
+      if (!addressOf(account)) continue
+      for (const entry of await account.transactions.listPending()) found.push({ name, account, entry })
+    }
+    return found.sort((a, b) => a.entry.signedAt.localeCompare(b.entry.signedAt))
+  }
+
+  // ──────────────────────────────────────────────
+  // confirm_transaction
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "confirm_transaction",
+    {
+      description: "[Personal] Signs and executes a transaction previously previewed with dryRun=true by any signing tool (create_collection, mint_item, ensure_kiosk, list_item, ...). Each confirmationId can be used once and expires after 5 minutes. The transaction is signed by the account that created the preview.",
+      inputSchema: {
+        confirmationId: z.string().describe("confirmationId returned by a dryRun preview"),
+      },
+      // The result of whichever tool was previewed
+      outputSchema: z.object({}).passthrough(),
+    },
+    async ({ confirmationId }, extra) => {
+      // Previews are held per account; confirm with the account that prepared it
+      const owner = accounts.entries().find(([, account]) => account.transactions.isHolding(confirmationId))
+      const { transactions } = owner ? owner[1] : accounts.get()
+      const result = await transactions.confirm(confirmationId, extra)
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // get_transaction_history
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "get_transaction_history",
+    {
+      description: "[Personal] Reads the local audit journal of transactions this server previewed, signed and executed for this session's accounts, newest first. Each entry shows the tool, its params (secrets redacted), txId, cost, signer, network, timestamps and the resulting IDs or error.",
+      inputSchema: {
+        tool: z.string().optional().describe("Only transactions from this tool, e.g. list_item"),
+        network: z.enum(["testnet", "mainnet"]).optional().describe("Only this network (default: all)"),
+        status: auditEventSchema
+          .optional()
+          .describe("Latest state: previewed (never confirmed), prepared, signed (outcome unknown), executed or failed"),
+        from: z.string().optional().describe("ISO date or timestamp; only transactions started on or after it"),
+        to: z.string().optional().describe("ISO date or timestamp; only transactions started on or before it"),
+        limit: z.number().int().min(1).max(1000).optional().default(50).describe("Max transactions to return (default 50)"),
+      },
+      outputSchema: {
+        path: z.string(),
+        matched: z.number(),
+        returned: z.number(),
+        transactions: z.array(transactionRecordSchema),
+      },
+    },
+    async ({ limit, ...query }) => {
+      const path = auditLogPath()
+      const all = await readTransactionHistory(path, { ...query, signers: sessionSigners() })
+      const transactions = all.slice(0, limit ?? 50)
+
+      const result = {
+        path,
+        matched: all.length,
+        returned: transactions.length,
+        transactions,
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // get_pending_transactions
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "get_pending_transactions",
+    {
+      description: "[Personal] Lists transactions this session's accounts signed but whose execution failed or never returned (network error, timeout, expired session), so it is unknown whether they landed. They survive restarts; resolve each with retry_pending_transaction.",
+      inputSchema: {},
+      outputSchema: {
+        pending: z.array(
+          z.object({
+            txId: z.string(),
+            tool: z.string(),
+            account: z.string().optional(),
+            signer: z.string(),
+            cost: z.string(),
+            costTokenSymbol: z.string(),
+            params: z.record(z.unknown()).optional(),
+            signedAt: z.string(),
+            attempts: z.number(),
+            lastAttemptAt: z.string().optional(),
+            lastError: z.string().optional(),
+            // Whether a retry can check for the outcome before re-submitting
+            checksExisting: z.boolean(),
+          })
+        ),
+      },
+    },
+    async () => {
+      const entries = await pendingByAccount()
+
+      const result = {
+        pending: entries.map(({ name, entry }) => ({
+          txId: entry.prepared.txId,
+          tool: entry.tool,
+          account: name,
+          signer: entry.signer,
+          cost: entry.prepared.cost,
+          costTokenSymbol: entry.prepared.costTokenSymbol,
+          params: entry.params,
+          signedAt: entry.signedAt,
+          attempts: entry.attempts,
+          lastAttemptAt: entry.lastAttemptAt,
+          lastError: entry.lastError,
+          checksExisting: entry.existing !== undefined,
+        })),
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+
+  // ──────────────────────────────────────────────
+  // retry_pending_transaction
+  // ──────────────────────────────────────────────
+  server.registerTool(
+    "retry_pending_transaction",
+    {
+      description: "[Personal] Resolves a pending transaction from get_pending_transactions. It first checks through the API whether the expected result (collection, item, kiosk, listing, new owner, ...) already exists and, if so, only records it. Otherwise it re-submits the same txId, txBytes and signature to the original execute endpoint; nothing is signed again. Pass discard=true to drop an entry that is known to have failed.",
+      inputSchema: {
+        txId: z.string().describe("txId from get_pending_transactions"),
+        discard: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Drop the entry without checking or re-submitting it"),
+      },
+      outputSchema: {
+        txId: z.string(),
+        tool: z.string().optional(),
+        status: z.enum(["already_executed", "executed", "discarded"]),
+        result: z.record(z.unknown()).optional(),
+      },
+    },
+    async ({ txId, discard }, extra) => {
+      // Pending transactions can only be re-submitted by the account that signed them
+      const found = (await pendingByAccount()).find(({ entry }) => entry.prepared.txId === txId)
+      if (!found) {
+        throw new ToolError("NOT_FOUND", `No pending transaction with txId "${txId}".`, "List them with get_pending_transactions.")
+      }
+      const { entry, account: { transactions } } = found
+
+      let result: Record<string, unknown>
+      if (discard) {
+        await transactions.discardPending(txId)
+        result = { txId, tool: entry.tool, status: "discarded" }
+      } else {
+        result = await transactions.retryPending(txId, extra)
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      }
+    }
+  )
+}
@@ -0,0 +1,344 @@
+import { randomUUID } from "node:crypto"
+import { z } from "zod"
+import type { FortemClient, ResponseSchema } from "./client.js"
+import { ToolError } from "./errors.js"
+import { pickResultIds, sanitizeParams, type AuditEntry, type AuditEvent, type AuditJournal } from "./audit.js"
+import { queueProgress, TransactionQueue, type ToolExtra } from "./queue.js"
+import { findExisting, snapshotExisting, type ExistingCheck, type PendingStore, type PendingTransaction } from "./pending.js"
+import type { Signer } from "./signer.js"
+import type { TxResponse } from "./types.js"
+import { decodeTransaction } from "./verify.js"
+
+// Held previews expire quickly so a stale quote is never signed
+const PREVIEW_TTL_MS = 5 * 60 * 1000
+
+export interface PreparedTransaction<R = unknown> {
+  tool: string
+  prepared: TxResponse
+  executePath: string
+  // Tool input, recorded (sanitized) in the audit journal
+  params?: Record<string, unknown>
+  // Checked against the /execute response before format sees it
+  resultSchema: ResponseSchema<R>
+  format: (result: R) => Record<string, unknown>
+  recipients?: string[]
+  // How a retry tells whether the transaction already landed
+  existing?: ExistingCheck
+  // Runs after signing, before /execute is called
+  onSigned?: (signature: string) => Promise<void>
+}
+
+export const transactionSummarySchema = z.object({
+  tool: z.string(),
+  txId: z.string(),
+  cost: z.string(),
+  costTokenSymbol: z.string(),
+  gasBudget: z.number(),
+  sender: z.string().optional(),
+  moveCalls: z.array(z.string()).optional(),
+  decodeError: z.string().optional(),
+})
+export type TransactionSummary = z.infer<typeof transactionSummarySchema>
+
+// What hold() returns in place of the result when a tool runs with dryRun=true
+const previewShape = {
+  preview: z.boolean().optional(),
+  confirmationId: z.string().optional(),
+  expiresAt: z.string().optional(),
+  summary: transactionSummarySchema.optional(),
+  note: z.string().optional(),
+}
+
+/** Output schema for a signing tool: its result fields, or a dryRun preview. */
+export function signingOutputSchema<S extends z.ZodRawShape>(shape: S) {
+  return z.object(shape).partial().extend(previewShape)
+}
+
+// The parts of a transaction the journal and pending store keep; none depend on its result type
+type TransactionInfo = Pick<PreparedTransaction, "tool" | "prepared" | "params">
+
+interface HeldTransaction {
+  // Bound to the transaction's own result type when it was held
+  execute: () => Promise<Record<string, unknown>>
+  expiresAt: number
+}
+
+export function summarizeTransaction(tool: string, prepared: TxResponse): TransactionSummary {
+  const summary: TransactionSummary = {
+    tool,
+    txId: prepared.txId,
+    cost: prepared.cost,
+    costTokenSymbol: prepared.costTokenSymbol,
+    gasBudget: prepared.gasBudget,
+  }
+
+  try {
+    const decoded = decodeTransaction(prepared.txBytes)
+    summary.sender = decoded.sender ?? undefined
+    summary.moveCalls = decoded.moveCalls.map((call) => `${call.package}::${call.module}::${call.function}`)
+  } catch (err) {
+    summary.decodeError = (err as Error).message
+  }
+
+  return summary
+}
+
+export class TransactionRunner {
+  private readonly held = new Map<string, HeldTransaction>()
+
+  constructor(
+    private readonly client: Pick<FortemClient, "get" | "getAllPages" | "post">,
+    private readonly signer: Signer,
+    private readonly journal?: AuditJournal,
+    private readonly pending?: PendingStore,
+    private readonly queue = new TransactionQueue(),
+    private readonly previewTtlMs = PREVIEW_TTL_MS
+  ) {}
+
+  getSignerAddress(): string {
+    return this.signer.getAddress()
+  }
+
+  /**
+   * Runs a tool's prepare → sign → execute flow in the account's transaction
+   * queue, reporting the queue position to the caller while it waits.
+   */
+  enqueue<T>(task: () => Promise<T>, extra?: ToolExtra): Promise<T> {
+    return this.queue.run(task, extra && queueProgress(extra), extra?.signal)
+  }
+
+  async execute<R>(tx: PreparedTransaction<R>): Promise<Record<string, unknown>> {
+    // Awaited before signing: nothing is signed without a journal entry
+    await this.record(tx, "prepared")
+    // What already exists now cannot be this transaction's result on a retry
+    const existing = tx.existing && await snapshotExisting(this.client, tx.existing)
+
+    let signature: string | undefined
+    try {
+      signature = await this.signer.signTransaction(tx.prepared.txBytes, {
+        tool: tx.tool,
+        prepared: tx.prepared,
+        recipients: tx.recipients,
+      })
+      await this.recordQuietly(tx, "signed")
+      await this.savePending(tx, signature, existing)
+      await tx.onSigned?.(signature)
+
+      let result: R
+      try {
+        result = await this.client.post(tx.executePath, {
+          txId: tx.prepared.txId,
+          txBytes: tx.prepared.txBytes,
+          signature,
+        }, tx.resultSchema)
+      } catch (err) {
+        // A 2xx from /execute means the transaction went through; only reading the result failed
+        if (err instanceof ToolError && err.code === "UNEXPECTED_RESPONSE") {
+          await this.forgetPending(tx.prepared.txId)
+          throw new ToolError(
+            "UNEXPECTED_RESPONSE",
+            `Transaction ${tx.prepared.txId} was executed, but its result could not be read. ${err.message}`,
+            "Do not run the tool again. Check the outcome with get_my_items or get_item_detail."
+          )
+        }
+        throw err
+      }
+
+      await this.forgetPending(tx.prepared.txId)
+      const output = tx.format(result)
+      await this.recordQuietly(tx, "executed", { result: pickResultIds(output) })
+      return output
+    } catch (err) {
+      await this.recordQuietly(tx, "failed", { error: (err as Error).message })
+      if (signature !== undefined) await this.notePendingFailure(tx.prepared.txId, (err as Error).message)
+      throw err
+    }
+  }
+
+  async listPending(): Promise<PendingTransaction[]> {
+    return this.pending ? this.pending.list() : []
+  }
+
+  /**
+   * Re-submits a signed transaction whose /execute call failed. When the
+   * expected outcome can already be seen through the API, nothing is sent.
+   */
+  async retryPending(txId: string, extra?: ToolExtra): Promise<Record<string, unknown>> {
+    return this.enqueue(() => this.resubmitPending(txId), extra)
+  }
+
+  private async resubmitPending(txId: string): Promise<Record<string, unknown>> {
+    const entry = await this.pending?.get(txId)
+    if (!entry) {
+      throw new ToolError("NOT_FOUND", `No pending transaction with txId "${txId}".`, "List them with get_pending_transactions.")
+    }
+    const tx = { tool: entry.tool, prepared: entry.prepared }
+
+    if (entry.existing) {
+      const existing = await findExisting(this.client, entry.existing, entry.signedAt)
+      if (existing) {
+        await this.forgetPending(txId)
+        await this.recordQuietly(tx, "executed", { result: pickResultIds(existing) })
+        return { txId, tool: entry.tool, status: "already_executed", result: existing }
+      }
+    }
+
+    try {
+      const result = await this.client.post(entry.executePath, {
+        txId,
+        txBytes: entry.prepared.txBytes,
+        signature: entry.signature,
+      }, z.object({}).passthrough())
+
+      await this.forgetPending(txId)
+      await this.recordQuietly(tx, "executed", { result: pickResultIds(result) })
+      return { txId, tool: entry.tool, status: "executed", result }
+    } catch (err) {
+      // A 2xx that could not be read still means the transaction went through
+      if (err instanceof ToolError && err.code === "UNEXPECTED_RESPONSE") await this.forgetPending(txId)
+      else await this.notePendingFailure(txId, (err as Error).message)
+      await this.recordQuietly(tx, "failed", { error: (err as Error).message })
+      throw err
+    }
+  }
+
+  hold<R>(tx: PreparedTransaction<R>): Record<string, unknown> {
+    this.pruneExpired()
+
+    const confirmationId = randomUUID()
+    const expiresAt = Date.now() + this.previewTtlMs
+    this.held.set(confirmationId, { execute: () => this.execute(tx), expiresAt })
+    void this.recordQuietly(tx, "previewed")
+
+    return {
+      preview: true,
+      confirmationId,
+      expiresAt: new Date(expiresAt).toISOString(),
+      summary: summarizeTransaction(tx.tool, tx.prepared),
+      note: "Nothing has been signed yet. Call confirm_transaction with this confirmationId to sign and execute.",
+    }
+  }
+
+  isHolding(confirmationId: string): boolean {
+    this.pruneExpired()
+    return this.held.has(confirmationId)
+  }
+
+  async confirm(confirmationId: string, extra?: ToolExtra): Promise<Record<string, unknown>> {
+    this.pruneExpired()
+
+    const entry = this.held.get(confirmationId)
+    if (!entry) {
+      throw new ToolError(
+        "NOT_FOUND",
+        `No pending preview found for confirmationId "${confirmationId}". It may have expired.`,
+        "Run the tool again with dryRun=true and confirm the new confirmationId within 5 minutes."
+      )
+    }
+
+    // Single use: a handle can never be confirmed twice
+    this.held.delete(confirmationId)
+    return this.enqueue(entry.execute, extra)
+  }
+
+  /** Drops a pending transaction without submitting it, e.g. once it is known to have failed on chain. */
+  async discardPending(txId: string): Promise<void> {
+    const entry = await this.pending?.get(txId)
+    if (!entry) {
+      throw new ToolError("NOT_FOUND", `No pending transaction with txId "${txId}".`, "List them with get_pending_transactions.")
+    }
+    await this.pending?.remove(txId)
+    await this.recordQuietly({ tool: entry.tool, prepared: entry.prepared }, "failed", { error: "Discarded without retrying" })
+  }
+
+  private async savePending(tx: TransactionInfo & Pick<PreparedTransaction, "executePath">, signature: string, existing?: ExistingCheck): Promise<void> {
+    if (!this.pending) return
+    try {
+      await this.pending.save({
+        tool: tx.tool,
+        prepared: tx.prepared,
+        signature,
+        signer: this.signer.getAddress(),
+        executePath: tx.executePath,
+        params: tx.params && (sanitizeParams(tx.params) as Record<string, unknown>),
+        existing,
+        signedAt: new Date().toISOString(),
+        attempts: 0,
+      })
+    } catch (err) {
+      process.stderr.write(`[fortem-mcp] Could not save pending transaction ${tx.prepared.txId}: ${(err as Error).message}\n`)
+    }
+  }
+
+  private async notePendingFailure(txId: string, error: string): Promise<void> {
+    try {
+      const entry = await this.pending?.get(txId)
+      if (!entry) return
+      await this.pending?.save({
+        ...entry,
+        attempts: entry.attempts + 1,
+        lastAttemptAt: new Date().toISOString(),
+        lastError: error,
+      })
+    } catch (err) {
+      process.stderr.write(`[fortem-mcp] Could not update pending transaction ${txId}: ${(err as Error).message}\n`)
+    }
+  }
+
+  private async forgetPending(txId: string): Promise<void> {
+    try {
+      await this.pending?.remove(txId)
+    } catch (err) {
+      process.stderr.write(`[fortem-mcp] Could not remove pending transaction ${txId}: ${(err as Error).message}\n`)
+    }
+  }
+
+  private async record(
+    tx: TransactionInfo,
+    event: AuditEvent,
+    extra: Pick<AuditEntry, "result" | "error"> = {}
+  ): Promise<void> {
+    if (!this.journal) return
+
+    let signer: string | undefined
+    try {
+      signer = this.signer.getAddress()
+    } catch {
+      // No usable key; signing reports the error itself
+    }
+
+    // Params are only written on the first entry of a transaction
+    const first = event === "previewed" || event === "prepared"
+    await this.journal.record({
+      event,
+      tool: tx.tool,
+      txId: tx.prepared.txId,
+      cost: tx.prepared.cost,
+      costTokenSymbol: tx.prepared.costTokenSymbol,
+      gasBudget: tx.prepared.gasBudget,
+      signer,
+      params: first && tx.params ? (sanitizeParams(tx.params) as Record<string, unknown>) : undefined,
+      ...extra,
+    })
+  }
+
+  // Once signed, a journal write failure must not hide the transaction's outcome
+  private async recordQuietly(
+    tx: TransactionInfo,
+    event: AuditEvent,
+    extra: Pick<AuditEntry, "result" | "error"> = {}
+  ): Promise<void> {
+    try {
+      await this.record(tx, event, extra)
+    } catch (err) {
+      process.stderr.write(`[fortem-mcp] Could not write audit entry for ${tx.prepared.txId}: ${(err as Error).message}\n`)
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now()
+    for (const [id, entry] of this.held) {
+      if (entry.expiresAt <= now) this.held.delete(id)
+    }
+  }
+}
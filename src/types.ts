@@ -1,3 +1,6 @@
+import type { z } from "zod"
+import type { txResponseSchema } from "./schemas.js"
+
 export interface NetworkConfig {
   apiUrl: string
 }
@@ -16,11 +19,12 @@ export interface ApiResponse<T> {
   metadata?: { pagination?: { totalItems: number } }
 }
 
-// prepare → execute pattern common response
-export interface TxResponse {
-  txId: string
-  txBytes: string
-  cost: string
-  costTokenSymbol: string
-  gasBudget: number
+// List endpoints: one page of data plus the pagination metadata
+export interface Page<T> {
+  data: T[]
+  totalItems?: number
+  nextSkip: number | null
 }
+
+// prepare → execute pattern common response
+export type TxResponse = z.infer<typeof txResponseSchema>
@@ -0,0 +1,290 @@
+import { createHash } from "node:crypto"
+import dns from "node:dns"
+import { mkdir, readdir, readFile, rename, stat, writeFile } from "node:fs/promises"
+import { request as httpRequest, type IncomingMessage } from "node:http"
+import { request as httpsRequest } from "node:https"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+import { basename, dirname, extname, join } from "node:path"
+import { z } from "zod"
+import type { FortemClient } from "./client.js"
+import { ToolError } from "./errors.js"
+import { readImageInfo, type ImageInfo } from "./image.js"
+import { getDataDir } from "./paths.js"
+import { uploadItemImageResponseSchema } from "./schemas.js"
+
+export type ImageType = "item" | "collection_logo" | "collection_background"
+
+const ENDPOINTS: Record<ImageType, string> = {
+  item: "/api/v1/items/image-upload",
+  collection_logo: "/api/v1/collections/image-upload/logo",
+  collection_background: "/api/v1/collections/image-upload/background",
+}
+
+interface ImageLimits {
+  maxBytes: number
+  maxWidth: number
+  maxHeight: number
+}
+
+const MB = 1024 * 1024
+
+// Checked locally so oversized art fails before anything is uploaded
+export const IMAGE_LIMITS: Record<ImageType, ImageLimits> = {
+  item: { maxBytes: 10 * MB, maxWidth: 4096, maxHeight: 4096 },
+  collection_logo: { maxBytes: 2 * MB, maxWidth: 1024, maxHeight: 1024 },
+  collection_background: { maxBytes: 5 * MB, maxWidth: 3840, maxHeight: 2160 },
+}
+
+const DOWNLOAD_TIMEOUT_MS = 30_000
+const MAX_REDIRECTS = 5
+
+// Loopback, private, link-local and other non-public ranges. In HTTP mode the
+// URL comes from a remote client, so it must not reach this host's network.
+const NON_PUBLIC = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) NON_PUBLIC.addSubnet(network, prefix, "ipv4")
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges
+for (const [network, prefix] of [
+  ["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) NON_PUBLIC.addSubnet(network, prefix, "ipv6")
+
+// Files picked up from a directory; the content is still sniffed
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp)$/i
+
+export type ImageSource =
+  | { filePath: string }
+  | { url: string }
+  // Raw base64 or a data: URI
+  | { base64: string; filename?: string }
+
+export interface UploadedImage {
+  type: ImageType
+  // IPFS CID for items, S3 key for collection images
+  value: string
+  sha256: string
+  mimeType: string
+  width: number
+  height: number
+  bytes: number
+  // Same content was uploaded before; nothing was sent
+  cached: boolean
+}
+
+interface LoadedImage {
+  bytes: Buffer<ArrayBuffer>
+  name: string
+}
+
+// No size when the download was stopped before its end
+function tooLarge(size: number | undefined, type: ImageType): ToolError {
+  const { maxBytes } = IMAGE_LIMITS[type]
+  const actual = size === undefined ? `over ${maxBytes / MB} MB` : `${(size / MB).toFixed(1)} MB`
+  return new ToolError(
+    "VALIDATION_ERROR",
+    `Image is ${actual}; ${type} images may be at most ${maxBytes / MB} MB.`
+  )
+}
+
+function assertPublicAddress(host: string, address: string): void {
+  if (NON_PUBLIC.check(address, isIP(address) === 6 ? "ipv6" : "ipv4")) {
+    throw new ToolError(
+      "VALIDATION_ERROR",
+      `${host} resolves to ${address}, which is not a public address.`,
+      "Download the image yourself and pass it as filePath or base64."
+    )
+  }
+}
+
+// Runs as the socket's own lookup, so the checked address is the one connected
+// to and a host cannot pass the check and then resolve elsewhere (DNS rebinding).
+// Every address must be public, not just the first one.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "")
+    try {
+      for (const { address } of addresses) assertPublicAddress(hostname, address)
+    } catch (blocked) {
+      return callback(blocked as Error, "")
+    }
+    if (options.all) callback(null, addresses)
+    else callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// One GET through publicLookup; IP literals never reach a lookup, so they are checked here
+function requestPublic(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new ToolError("VALIDATION_ERROR", `Only http(s) image URLs are supported, got: ${url.protocol}`)
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1")
+  if (isIP(host)) assertPublicAddress(url.host, host)
+
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest
+  return new Promise((resolve, reject) => {
+    request(url, { lookup: publicLookup, signal }, resolve).on("error", reject).end()
+  })
+}
+
+// Follows redirects by hand so every hop is checked before it is requested
+async function fetchPublic(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  for (let redirects = 0; ; redirects++) {
+    const res = await requestPublic(url, signal)
+    const status = res.statusCode ?? 0
+    const location = res.headers.location
+    if (status < 300 || status >= 400 || !location) return res
+    res.destroy()
+    if (redirects === MAX_REDIRECTS) throw new Error(`Downloading ${url.href} failed: too many redirects`)
+    url = new URL(location, url)
+  }
+}
+
+/** Reads a response body, giving up as soon as it passes the size limit for `type`, whatever Content-Length said. */
+export async function readLimited(body: AsyncIterable<Uint8Array> | null, type: ImageType): Promise<Buffer<ArrayBuffer>> {
+  const { maxBytes } = IMAGE_LIMITS[type]
+  const chunks: Uint8Array[] = []
+  let size = 0
+  // Leaving the loop early cancels the stream
+  for await (const chunk of body ?? []) {
+    size += chunk.length
+    if (size > maxBytes) throw tooLarge(undefined, type)
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function loadImage(source: ImageSource, type: ImageType): Promise<LoadedImage> {
+  const { maxBytes } = IMAGE_LIMITS[type]
+
+  if ("filePath" in source) {
+    const { size } = await stat(source.filePath)
+    if (size > maxBytes) throw tooLarge(size, type)
+    return { bytes: await readFile(source.filePath), name: basename(source.filePath) }
+  }
+
+  if ("url" in source) {
+    const url = new URL(source.url)
+    const res = await fetchPublic(url, AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS))
+    const status = res.statusCode ?? 0
+    if (status < 200 || status >= 300) {
+      res.destroy()
+      throw new Error(`Downloading ${source.url} failed: HTTP ${status}`)
+    }
+    const length = Number(res.headers["content-length"] ?? 0)
+    if (length > maxBytes) {
+      res.destroy()
+      throw tooLarge(length, type)
+    }
+    return { bytes: await readLimited(res, type), name: basename(url.pathname) || "image" }
+  }
+
+  const data = source.base64.replace(/^data:[^,]*;base64,/, "").replace(/\s/g, "")
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(data)) {
+    throw new ToolError("VALIDATION_ERROR", "base64 is not valid base64 data (raw or a data: URI)")
+  }
+  const bytes = Buffer.from(data, "base64")
+  if (bytes.length > maxBytes) throw tooLarge(bytes.length, type)
+  return { bytes, name: source.filename ?? "image" }
+}
+
+function checkImage(image: LoadedImage, type: ImageType): ImageInfo {
+  const info = readImageInfo(image.bytes)
+  if (!info) {
+    throw new ToolError(
+      "VALIDATION_ERROR",
+      `${image.name} is not a readable PNG, JPEG, GIF or WebP image (the type is read from the file content, not its name).`
+    )
+  }
+
+  const { maxWidth, maxHeight } = IMAGE_LIMITS[type]
+  if (info.width > maxWidth || info.height > maxHeight) {
+    throw new ToolError(
+      "VALIDATION_ERROR",
+      `${image.name} is ${info.width}x${info.height}; ${type} images may be at most ${maxWidth}x${maxHeight}.`
+    )
+  }
+  return info
+}
+
+// One file per uploaded image, keyed by API host, type and content hash
+function cachePath(client: FortemClient, type: ImageType, sha256: string): string {
+  return join(getDataDir(), "uploads", new URL(client.apiUrl).host, `${type}-${sha256}.json`)
+}
+
+async function readCache(path: string): Promise<Omit<UploadedImage, "cached"> | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as Omit<UploadedImage, "cached">
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      process.stderr.write(`[fortem-mcp] Ignoring unreadable upload cache entry: ${(err as Error).message}\n`)
+    }
+    return undefined
+  }
+}
+
+async function writeCache(path: string, entry: Omit<UploadedImage, "cached">): Promise<void> {
+  try {
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(`${path}.tmp`, JSON.stringify({ ...entry, uploadedAt: new Date().toISOString() }, null, 2))
+    await rename(`${path}.tmp`, path)
+  } catch (err) {
+    // The upload itself succeeded; only the next dedupe is lost
+    process.stderr.write(`[fortem-mcp] Could not write upload cache entry: ${(err as Error).message}\n`)
+  }
+}
+
+/**
+ * Uploads an image from a file, URL or base64 data after checking its real
+ * type and the size limits for `type`. Content that was uploaded before
+ * returns the cached CID or S3 key instead.
+ */
+export async function uploadImage(client: FortemClient, source: ImageSource, type: ImageType): Promise<UploadedImage> {
+  const image = await loadImage(source, type)
+  const info = checkImage(image, type)
+  const sha256 = createHash("sha256").update(image.bytes).digest("hex")
+
+  const path = cachePath(client, type, sha256)
+  const cached = await readCache(path)
+  if (cached) {
+    const { value, mimeType, width, height, bytes } = cached
+    return { type, value, sha256, mimeType, width, height, bytes, cached: true }
+  }
+
+  // The extension follows the sniffed type, whatever the source was called
+  const stem = basename(image.name, extname(image.name)) || "image"
+  const formData = new FormData()
+  formData.append("file", new Blob([image.bytes], { type: info.mimeType }), `${stem}.${info.extension}`)
+
+  // Item images go to IPFS (CID for mint_item's itemImage); collection images
+  // go to S3 (key for logoImagePath/backgroundImagePath)
+  const value = type === "item"
+    ? (await client.uploadFile(ENDPOINTS.item, formData, uploadItemImageResponseSchema)).itemImage
+    : await client.uploadFile(ENDPOINTS[type], formData, z.string())
+
+  const entry = {
+    type,
+    value,
+    sha256,
+    mimeType: info.mimeType,
+    width: info.width,
+    height: info.height,
+    bytes: image.bytes.length,
+  }
+  await writeCache(path, entry)
+  return { ...entry, cached: false }
+}
+
+/** Image files directly inside `dir`, sorted by name. */
+export async function listImageFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  return entries
+    .filter((entry) => entry.isFile() && IMAGE_EXTENSIONS.test(entry.name))
+    .map((entry) => join(dir, entry.name))
+    .sort()
+}
+
+// Returns the CID used as mint_item's itemImage
+export async function uploadItemImage(client: FortemClient, filePath: string): Promise<string> {
+  return (await uploadImage(client, { filePath }, "item")).value
+}
@@ -0,0 +1,240 @@
+import { bcs } from "@mysten/sui/bcs"
+import { Transaction, type Argument, type TransactionData } from "@mysten/sui/transactions"
+import { fromBase64, normalizeSuiAddress } from "@mysten/sui/utils"
+import type { Signer, SigningContext } from "./signer.js"
+
+// Move stdlib, Sui framework and Sui system packages
+const FRAMEWORK_PACKAGES = ["0x1", "0x2", "0x3"].map((id) => normalizeSuiAddress(id))
+
+// Framework functions that send their object to an address argument, by argument index.
+// Their recipients are checked like TransferObjects recipients.
+const SUI_FRAMEWORK = normalizeSuiAddress("0x2")
+const RECIPIENT_ARGUMENTS: Record<string, number> = {
+  [`${SUI_FRAMEWORK}::transfer::transfer`]: 1,
+  [`${SUI_FRAMEWORK}::transfer::public_transfer`]: 1,
+  [`${SUI_FRAMEWORK}::coin::mint_and_transfer`]: 2,
+  [`${SUI_FRAMEWORK}::pay::split_and_transfer`]: 2,
+}
+
+// The Fortem package IDs prepared transactions may call (FORTEM_MOVE_PACKAGES).
+// "any" accepts every non-framework package and must be opted into explicitly.
+export type FortemPackages = string[] | "any"
+
+// Move targets each tool's prepared transaction may call, as "package::module".
+// "fortem" stands for the Fortem packages; with none configured it matches nothing.
+const DEFAULT_MOVE_ALLOWLIST: Record<string, string[]> = {
+  create_collection: ["fortem::*", "0x1::string", "0x1::option", "0x2::object", "0x2::transfer", "0x2::coin", "0x2::display", "0x2::package"],
+  update_collection: ["fortem::*", "0x1::string", "0x1::option", "0x2::object", "0x2::display", "0x2::coin"],
+  mint_item: ["fortem::*", "0x1::string", "0x1::option", "0x2::object", "0x2::transfer", "0x2::coin", "0x2::url", "0x2::vec_map"],
+  bulk_mint_items: ["fortem::*", "0x1::string", "0x1::option", "0x2::object", "0x2::transfer", "0x2::coin", "0x2::url", "0x2::vec_map"],
+  ensure_kiosk: ["fortem::*", "0x2::kiosk", "0x2::transfer"],
+  list_item: ["fortem::*", "0x2::kiosk", "0x2::transfer_policy", "0x2::coin"],
+  unlist_item: ["fortem::*", "0x2::kiosk"],
+  update_listing: ["fortem::*", "0x2::kiosk", "0x2::transfer_policy", "0x2::coin"],
+  make_swap_offer: ["fortem::*", "0x2::kiosk", "0x2::transfer_policy", "0x2::object"],
+  accept_offer: ["fortem::*", "0x2::kiosk", "0x2::transfer_policy", "0x2::object"],
+  reject_offer: ["fortem::*", "0x2::kiosk", "0x2::object"],
+  cancel_offer: ["fortem::*", "0x2::kiosk", "0x2::object"],
+  transfer_item: ["fortem::*", "0x2::transfer", "0x2::object"],
+  redeem_item: ["fortem::*", "0x1::string", "0x2::object"],
+  buy_item: ["fortem::*", "0x2::kiosk", "0x2::transfer_policy", "0x2::coin", "0x2::balance", "0x2::pay", "0x2::transfer"],
+}
+
+export interface MoveCallTarget {
+  package: string
+  module: string
+  function: string
+}
+
+export interface DecodedTransaction {
+  sender: string | null
+  gasBudget: string | null
+  moveCalls: MoveCallTarget[]
+  // Move calls that take the gas coin itself as an argument
+  gasCoinCalls: MoveCallTarget[]
+  commandKinds: string[]
+  // Recipients of TransferObjects commands and framework transfer calls
+  transferRecipients: string[]
+  // Transfers whose recipient is not a literal address, e.g. "command 2 (TransferObjects)"
+  unresolvedTransfers: string[]
+}
+
+export class TransactionVerificationError extends Error {
+  constructor(
+    readonly tool: string,
+    readonly problems: string[]
+  ) {
+    super(
+      `Refusing to sign ${tool} transaction: the prepared bytes do not match what was requested.\n` +
+      problems.map((problem) => `  - ${problem}`).join("\n")
+    )
+    this.name = "TransactionVerificationError"
+  }
+}
+
+// A recipient only counts when it is a pure address input; anything computed on chain cannot be checked
+function decodeRecipient(data: TransactionData, argument: Argument): string | undefined {
+  const input = argument.$kind === "Input" ? data.inputs[argument.Input] : undefined
+  if (!input?.Pure) return undefined
+  try {
+    return normalizeSuiAddress(bcs.Address.parse(fromBase64(input.Pure.bytes)))
+  } catch {
+    return undefined
+  }
+}
+
+export function decodeTransaction(txBytes: string): DecodedTransaction {
+  const data = Transaction.from(txBytes).getData()
+
+  const moveCalls: MoveCallTarget[] = []
+  const gasCoinCalls: MoveCallTarget[] = []
+  const transferRecipients: string[] = []
+  const unresolvedTransfers: string[] = []
+
+  const addRecipient = (argument: Argument | undefined, description: string) => {
+    const recipient = argument && decodeRecipient(data, argument)
+    if (recipient) transferRecipients.push(recipient)
+    else unresolvedTransfers.push(description)
+  }
+
+  data.commands.forEach((command, index) => {
+    if (command.MoveCall) {
+      const call = {
+        package: normalizeSuiAddress(command.MoveCall.package),
+        module: command.MoveCall.module,
+        function: command.MoveCall.function,
+      }
+      moveCalls.push(call)
+      if (command.MoveCall.arguments.some((argument) => argument.$kind === "GasCoin")) gasCoinCalls.push(call)
+
+      const target = `${call.package}::${call.module}::${call.function}`
+      const recipientIndex = RECIPIENT_ARGUMENTS[target]
+      if (recipientIndex !== undefined) {
+        addRecipient(command.MoveCall.arguments[recipientIndex], `command ${index} (${call.module}::${call.function})`)
+      }
+    }
+    if (command.TransferObjects) {
+      addRecipient(command.TransferObjects.address, `command ${index} (TransferObjects)`)
+    }
+  })
+
+  return {
+    sender: data.sender ? normalizeSuiAddress(data.sender) : null,
+    gasBudget: data.gasData.budget === null ? null : String(data.gasData.budget),
+    moveCalls,
+    gasCoinCalls,
+    commandKinds: data.commands.map((command) => command.$kind),
+    transferRecipients,
+    unresolvedTransfers,
+  }
+}
+
+function matchesTarget(pattern: string, call: MoveCallTarget, fortemPackages: FortemPackages): boolean {
+  const [pkg, mod] = pattern.split("::")
+  if (mod !== "*" && mod !== call.module) return false
+
+  if (pkg !== "fortem") return normalizeSuiAddress(pkg) === call.package
+  if (fortemPackages === "any") return !FRAMEWORK_PACKAGES.includes(call.package)
+  return fortemPackages.includes(call.package)
+}
+
+/**
+ * Collects every mismatch between the prepared bytes and what the tool asked for.
+ * Returns an empty list when the transaction is safe to sign.
+ */
+export function findVerificationProblems(
+  txBytes: string,
+  context: SigningContext,
+  expectedSender: string,
+  fortemPackages: FortemPackages = [],
+  allowlist: Record<string, string[]> = DEFAULT_MOVE_ALLOWLIST
+): string[] {
+  let decoded: DecodedTransaction
+  try {
+    decoded = decodeTransaction(txBytes)
+  } catch (err) {
+    return [`txBytes could not be decoded as a Sui transaction: ${(err as Error).message}`]
+  }
+
+  const problems: string[] = []
+  const sender = normalizeSuiAddress(expectedSender)
+  const packages = fortemPackages === "any" ? "any" : fortemPackages.map((id) => normalizeSuiAddress(id))
+
+  if (decoded.sender !== sender) {
+    problems.push(`sender is ${decoded.sender ?? "(unset)"}, expected this wallet ${sender}`)
+  }
+
+  if (decoded.gasBudget !== String(context.prepared.gasBudget)) {
+    problems.push(`gas budget is ${decoded.gasBudget ?? "(unset)"}, but the API advertised ${context.prepared.gasBudget}`)
+  }
+
+  for (const kind of decoded.commandKinds) {
+    if (kind === "Publish" || kind === "Upgrade") {
+      problems.push(`contains a ${kind} command, which no Fortem operation needs`)
+    }
+  }
+
+  const allowedRecipients = [sender, ...(context.recipients ?? []).map((address) => normalizeSuiAddress(address))]
+  for (const recipient of decoded.transferRecipients) {
+    if (!allowedRecipients.includes(recipient)) {
+      problems.push(`transfers objects to ${recipient}, which is neither this wallet nor a requested recipient`)
+    }
+  }
+  for (const transfer of decoded.unresolvedTransfers) {
+    problems.push(`${transfer} sends objects to an address that is not a literal input, so the recipient cannot be checked`)
+  }
+
+  for (const call of decoded.gasCoinCalls) {
+    if (!FRAMEWORK_PACKAGES.includes(call.package)) {
+      problems.push(`passes the gas coin to ${call.package}::${call.module}::${call.function}; only framework calls may take it`)
+    }
+  }
+
+  const targets = allowlist[context.tool]
+  if (!targets) {
+    problems.push(`no Move target allowlist is defined for ${context.tool}`)
+  } else {
+    for (const call of decoded.moveCalls) {
+      if (targets.some((pattern) => matchesTarget(pattern, call, packages))) continue
+      if (packages.length === 0 && !FRAMEWORK_PACKAGES.includes(call.package)) {
+        problems.push(
+          `calls ${call.package}::${call.module}::${call.function}, but FORTEM_MOVE_PACKAGES is not set, so it cannot be checked against the Fortem packages`
+        )
+      } else {
+        problems.push(
+          `calls ${call.package}::${call.module}::${call.function}, which is not allowed for ${context.tool} (allowed: ${targets.join(", ")})`
+        )
+      }
+    }
+  }
+
+  return problems
+}
+
+export class VerifyingSigner implements Signer {
+  constructor(
+    private readonly inner: Signer,
+    private readonly fortemPackages: FortemPackages = []
+  ) {}
+
+  getAddress(): string {
+    return this.inner.getAddress()
+  }
+
+  async signTransaction(txBytes: string, context?: SigningContext): Promise<string> {
+    if (!context) {
+      throw new TransactionVerificationError("unknown", ["the transaction did not say which tool prepared it"])
+    }
+
+    const problems = findVerificationProblems(txBytes, context, this.inner.getAddress(), this.fortemPackages)
+    if (problems.length > 0) {
+      throw new TransactionVerificationError(context.tool, problems)
+    }
+
+    return this.inner.signTransaction(txBytes, context)
+  }
+
+  async signPersonalMessage(messageBytes: Uint8Array): Promise<{ bytes: string; signature: string }> {
+    return this.inner.signPersonalMessage(messageBytes)
+  }
+}
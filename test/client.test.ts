@@ -0,0 +1,97 @@
+import { strict as assert } from "node:assert"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { after, before, beforeEach, describe, it } from "node:test"
+import { FortemClient, type RequestOptions } from "../src/client.js"
+import { FortemApiError, ToolError } from "../src/errors.js"
+
+type Handler = (req: IncomingMessage, res: ServerResponse, hit: number) => void
+
+describe("FortemClient retries and timeouts", () => {
+  let server: Server
+  let apiUrl: string
+  let handler: Handler
+  let hits: number
+
+  before(async () => {
+    server = createServer((req, res) => handler(req, res, ++hits))
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    hits = 0
+  })
+
+  function client(options: Partial<RequestOptions> = {}): FortemClient {
+    return new FortemClient(apiUrl, async () => {}, undefined, { baseDelayMs: 1, maxDelayMs: 5, ...options })
+  }
+
+  function reply(res: ServerResponse, status: number, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { "content-type": "application/json", ...headers })
+    res.end(JSON.stringify(status === 200 ? { data: { ok: true } } : { message: `HTTP ${status}` }))
+  }
+
+  it("aborts an attempt after timeoutMs", async () => {
+    handler = () => {}
+    await assert.rejects(client({ timeoutMs: 50, maxRetries: 0 }).get("/slow"), /timed out after 50ms/)
+    // On a slow machine the attempt may time out before the server sees it
+    assert.ok(hits <= 1)
+  })
+
+  it("retries GETs with backoff on 5xx until one succeeds", async () => {
+    handler = (_req, res, hit) => reply(res, hit < 3 ? 503 : 200)
+    assert.deepEqual(await client({ maxRetries: 3 }).get("/flaky"), { ok: true })
+    assert.equal(hits, 3)
+  })
+
+  it("gives up once maxRetries are used", async () => {
+    handler = (_req, res) => reply(res, 502)
+    await assert.rejects(client({ maxRetries: 2 }).get("/down"), (err) => err instanceof FortemApiError && err.status === 502)
+    assert.equal(hits, 3)
+  })
+
+  it("waits for Retry-After before retrying a 429", async () => {
+    handler = (_req, res, hit) => reply(res, hit === 1 ? 429 : 200, { "retry-after": "1" })
+    const started = Date.now()
+    await client({ maxRetries: 1 }).get("/limited")
+    assert.ok(Date.now() - started >= 900)
+    assert.equal(hits, 2)
+  })
+
+  it("does not wait for a Retry-After above maxRetryAfterMs", async () => {
+    handler = (_req, res) => reply(res, 429, { "retry-after": "120" })
+    await assert.rejects(client({ maxRetries: 3 }).get("/limited"), (err) => err instanceof FortemApiError && err.status === 429)
+    assert.equal(hits, 1)
+  })
+
+  it("never retries /execute", async () => {
+    handler = (_req, res) => reply(res, 503)
+    await assert.rejects(client({ maxRetries: 3 }).post("/api/v1/items/mint/execute", {}), FortemApiError)
+    assert.equal(hits, 1)
+
+    hits = 0
+    handler = (_req, res) => reply(res, 429)
+    await assert.rejects(client({ maxRetries: 3 }).post("/api/v1/items/mint/execute", {}), /not submitted/)
+    assert.equal(hits, 1)
+  })
+
+  it("reports a network error on /execute as OUTCOME_UNKNOWN", async () => {
+    handler = (req) => req.socket.destroy()
+    await assert.rejects(
+      client({ maxRetries: 3 }).post("/api/v1/items/mint/execute", {}),
+      (err) => err instanceof ToolError && err.code === "OUTCOME_UNKNOWN"
+    )
+    assert.equal(hits, 1)
+  })
+
+  it("refuses invalid timeout and retry settings", () => {
+    assert.throws(() => client({ timeoutMs: Number("3O000") }), /FORTEM_API_TIMEOUT_MS/)
+    assert.throws(() => client({ maxRetries: -1 }), /FORTEM_API_MAX_RETRIES/)
+  })
+})
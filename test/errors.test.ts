@@ -0,0 +1,42 @@
+import { strict as assert } from "node:assert"
+import { describe, it } from "node:test"
+import { FortemApiError, ToolError, toToolErrorResult } from "../src/errors.js"
+
+function apiError(status: number, message: string, code?: string): FortemApiError {
+  return FortemApiError.fromResponse(status, "/api/v1/test", JSON.stringify({ message, code }))
+}
+
+describe("FortemApiError.code", () => {
+  it("recognizes a missing kiosk", () => {
+    assert.equal(apiError(400, "Kiosk does not exist").code, "KIOSK_MISSING")
+    assert.equal(apiError(404, "kiosk not found").code, "KIOSK_MISSING")
+    assert.equal(apiError(400, "User has no kiosk").code, "KIOSK_MISSING")
+    assert.equal(apiError(400, "Bad request", "KIOSK_NOT_FOUND").code, "KIOSK_MISSING")
+  })
+
+  it("does not mistake a missing kiosk item for a missing kiosk", () => {
+    assert.equal(apiError(404, "kiosk item not found").code, "NOT_FOUND")
+    assert.equal(apiError(400, "kioskItemId is required").code, "VALIDATION_ERROR")
+  })
+
+  it("falls back to the HTTP status", () => {
+    assert.equal(apiError(401, "Unauthorized").code, "UNAUTHORIZED")
+    assert.equal(apiError(429, "Slow down").code, "RATE_LIMITED")
+    assert.equal(apiError(502, "Bad gateway").code, "SERVER_ERROR")
+  })
+})
+
+describe("toToolErrorResult", () => {
+  it("carries the code and the default hint of a ToolError", () => {
+    const result = toToolErrorResult(new ToolError("ITEM_NOT_LISTED", "Item 1 is not listed for sale."))
+    const { error } = JSON.parse((result.content[0] as { text: string }).text)
+    assert.equal(result.isError, true)
+    assert.equal(error.code, "ITEM_NOT_LISTED")
+    assert.match(error.hint, /list_item/)
+  })
+
+  it("prefers a hint given at the throw site", () => {
+    const result = toToolErrorResult(new ToolError("ITEM_BUSY", "Item 1 is listed for sale.", "Run unlist_item first."))
+    assert.equal(JSON.parse((result.content[0] as { text: string }).text).error.hint, "Run unlist_item first.")
+  })
+})
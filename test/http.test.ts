@@ -0,0 +1,58 @@
+import { strict as assert } from "node:assert"
+import type { AddressInfo } from "node:net"
+import { describe, it } from "node:test"
+import { setTimeout as sleep } from "node:timers/promises"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { startHttpServer } from "../src/http.js"
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "0" } },
+}
+
+describe("HTTP mode", () => {
+  it("refuses per-session keys over plain HTTP on a non-loopback address", async () => {
+    await assert.rejects(
+      startHttpServer({ host: "0.0.0.0", port: 0, token: "t", sendsKeys: true, createSessionServer: () => new McpServer({ name: "test", version: "0" }) }),
+      /FORTEM_HTTP_BEHIND_TLS/
+    )
+  })
+
+  it("closes sessions that stay idle", async () => {
+    let closed = 0
+    const httpServer = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      idleTimeoutMs: 50,
+      createSessionServer: () => {
+        const server = new McpServer({ name: "test", version: "0" })
+        server.server.onclose = () => closed++
+        return server
+      },
+    })
+    const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`
+    const headers = { "content-type": "application/json", accept: "application/json, text/event-stream" }
+
+    try {
+      const res = await fetch(url, { method: "POST", headers, body: JSON.stringify(initialize) })
+      await res.text()
+      const sessionId = res.headers.get("mcp-session-id")
+      assert.ok(sessionId)
+
+      await sleep(200)
+      assert.equal(closed, 1)
+      const after = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "mcp-session-id": sessionId },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }),
+      })
+      await after.text()
+      assert.equal(after.status, 404)
+    } finally {
+      httpServer.closeAllConnections()
+      await new Promise((resolve) => httpServer.close(resolve))
+    }
+  })
+})
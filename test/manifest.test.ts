@@ -0,0 +1,88 @@
+import { strict as assert } from "node:assert"
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, describe, it } from "node:test"
+import { csvRowToInput, MintJournal, parseCsv } from "../src/manifest.js"
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, escaped quotes and line breaks", () => {
+    const rows = parseCsv('name,description\r\n"Pass, gold","Say ""hi""\nthen go"\r\nPlain,Text\n')
+    assert.deepEqual(rows, [
+      { name: "Pass, gold", description: 'Say "hi"\nthen go' },
+      { name: "Plain", description: "Text" },
+    ])
+  })
+
+  it("skips blank lines and leaves empty cells out", () => {
+    const rows = parseCsv("name,redeemUrl\n\nA,\n  \nB,https://example.com")
+    assert.deepEqual(rows, [{ name: "A" }, { name: "B", redeemUrl: "https://example.com" }])
+  })
+
+  it("returns nothing for an empty file", () => {
+    assert.deepEqual(parseCsv(""), [])
+  })
+})
+
+describe("csvRowToInput", () => {
+  it("collects attr: columns and a JSON attributes column", () => {
+    const input = csvRowToInput({
+      name: "A",
+      "attr:Rarity": "Legendary",
+      attributes: '[{"name":"Tier","value":"1"}]',
+    })
+    assert.deepEqual(input, {
+      name: "A",
+      attributes: [
+        { name: "Rarity", value: "Legendary" },
+        { name: "Tier", value: "1" },
+      ],
+    })
+  })
+
+  it("adds no attributes when there are none", () => {
+    assert.deepEqual(csvRowToInput({ name: "A" }), { name: "A" })
+  })
+})
+
+describe("MintJournal", () => {
+  const dirs: string[] = []
+  after(async () => {
+    for (const dir of dirs) await rm(dir, { recursive: true, force: true })
+  })
+
+  async function journalPath(): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), "fortem-journal-"))
+    dirs.push(dir)
+    return join(dir, "mint.jsonl")
+  }
+
+  it("replays the latest entry per row", async () => {
+    const path = await journalPath()
+    const journal = await MintJournal.open(path)
+    await journal.record({ row: 1, status: "submitted", name: "A", redeemCode: "A1", txId: "tx-1" })
+    await journal.record({ row: 1, status: "minted", name: "A", redeemCode: "A1", itemId: 5 })
+    await journal.record({ row: 2, status: "failed", name: "B", redeemCode: "B1", error: "boom" })
+
+    const replayed = await MintJournal.open(path)
+    assert.equal(replayed.get(1)?.status, "minted")
+    assert.equal(replayed.get(1)?.itemId, 5)
+    assert.equal(replayed.get(2)?.status, "failed")
+    assert.equal(replayed.get(3), undefined)
+  })
+
+  it("resumes after a crash cut the last line short", async () => {
+    const path = await journalPath()
+    const complete = JSON.stringify({ row: 1, status: "minted", name: "A", redeemCode: "A1", at: "2026-01-01T00:00:00.000Z" })
+    await writeFile(path, `${complete}\n{"row":2,"status":"subm`)
+
+    const journal = await MintJournal.open(path)
+    assert.equal(journal.get(1)?.status, "minted")
+    assert.equal(journal.get(2), undefined)
+
+    await journal.record({ row: 2, status: "minted", name: "B", redeemCode: "B1", itemId: 6 })
+    const replayed = await MintJournal.open(path)
+    assert.equal(replayed.get(2)?.itemId, 6)
+    assert.equal((await readFile(path, "utf8")).split("\n").length, 4)
+  })
+})
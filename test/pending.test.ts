@@ -0,0 +1,71 @@
+import { strict as assert } from "node:assert"
+import { describe, it } from "node:test"
+import { findExisting, snapshotExisting, type ExistingCheck } from "../src/pending.js"
+
+interface StubItem {
+  id: number
+  name: string
+  createdAt: string
+}
+
+// Serves same-name lookups from `items` and redeem checks from `redeemCodes`
+function stubClient(items: StubItem[], redeemCodes = new Map<string, number>()) {
+  return {
+    get: async () => ({ objectId: "0xcollection", name: "Drop" }),
+    getAllPages: async () => ({ data: items, truncated: false }),
+    post: async (_path: string, body: unknown) => {
+      const itemId = redeemCodes.get((body as { redeemCode: string }).redeemCode)
+      return { valid: itemId !== undefined, itemId, redeemed: false }
+    },
+  } as unknown as Parameters<typeof findExisting>[0]
+}
+
+const signedAt = new Date().toISOString()
+const justNow = new Date().toISOString()
+const mint: ExistingCheck = { kind: "item", collectionId: 7, name: "Summer Pass", redeemCode: "CODE-2" }
+
+describe("retry existence checks", () => {
+  it("do not take an older same-name item for a failed mint", async () => {
+    const items = [{ id: 1, name: "Summer Pass", createdAt: justNow }]
+    const client = stubClient(items)
+    const check = await snapshotExisting(client, mint)
+
+    assert.equal(await findExisting(client, check, signedAt), undefined)
+  })
+
+  it("find the item minted under the transaction's redeem code", async () => {
+    const items = [{ id: 1, name: "Summer Pass", createdAt: justNow }]
+    const redeemCodes = new Map<string, number>()
+    const client = stubClient(items, redeemCodes)
+    const check = await snapshotExisting(client, mint)
+
+    items.push({ id: 2, name: "Summer Pass", createdAt: justNow })
+    redeemCodes.set("CODE-2", 2)
+    assert.deepEqual(await findExisting(client, check, signedAt), { itemId: 2, name: "Summer Pass", collectionId: 7 })
+  })
+
+  it("ignore same-name items minted by others when the redeem code is still unused", async () => {
+    const items: StubItem[] = []
+    const client = stubClient(items)
+    const check = await snapshotExisting(client, mint)
+
+    items.push({ id: 3, name: "Summer Pass", createdAt: justNow })
+    assert.equal(await findExisting(client, check, signedAt), undefined)
+  })
+
+  it("re-submit instead of guessing when nothing was recorded before signing", async () => {
+    const client = stubClient([{ id: 4, name: "Summer Pass", createdAt: justNow }], new Map([["CODE-2", 4]]))
+
+    assert.equal(await findExisting(client, mint, signedAt), undefined)
+  })
+
+  it("only count a collection that did not exist before signing", async () => {
+    const collections = [{ id: 10, name: "Drop", createdAt: justNow }]
+    const client = stubClient(collections)
+    const check = await snapshotExisting(client, { kind: "collection", name: "Drop" })
+    assert.equal(await findExisting(client, check, signedAt), undefined)
+
+    collections.push({ id: 11, name: "Drop", createdAt: justNow })
+    assert.deepEqual(await findExisting(client, check, signedAt), { collectionId: 11, objectId: "0xcollection", name: "Drop" })
+  })
+})
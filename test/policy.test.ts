@@ -0,0 +1,127 @@
+import { strict as assert } from "node:assert"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, describe, it } from "node:test"
+import { AuditJournal } from "../src/audit.js"
+import { PolicySigner, PolicyViolationError, SpendLedger, type SigningPolicy } from "../src/policy.js"
+import type { Signer, SigningContext } from "../src/signer.js"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function context(cost: string, tool = "buy_item", costTokenSymbol = "USDC"): SigningContext {
+  return { tool, prepared: { txId: `tx-${cost}`, txBytes: "", cost, costTokenSymbol, gasBudget: 1000 } }
+}
+
+// Signs after `delayMs`, or fails when `fail` is set
+function fakeSigner(options: { delayMs?: number; fail?: boolean } = {}): Signer {
+  return {
+    getAddress: () => "0x1",
+    signTransaction: async () => {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs ?? 0))
+      if (options.fail) throw new Error("signing failed")
+      return "signature"
+    },
+    signPersonalMessage: async () => ({ bytes: "", signature: "" }),
+  }
+}
+
+function rule(rule: string) {
+  return (err: unknown) => err instanceof PolicyViolationError && err.rule === rule
+}
+
+describe("PolicySigner", () => {
+  it("refuses every signature on a read-only mainnet", async () => {
+    const signer = new PolicySigner(fakeSigner(), { mainnetReadOnly: true }, "mainnet")
+    await assert.rejects(signer.signTransaction("", context("1")), rule("mainnetReadOnly"))
+  })
+
+  it("refuses tools outside the network's allowlist", async () => {
+    const signer = new PolicySigner(fakeSigner(), { allowedTools: { testnet: ["mint_item"] } }, "testnet")
+    await assert.rejects(signer.signTransaction("", context("1")), rule("allowedTools"))
+    assert.equal(await signer.signTransaction("", context("1", "mint_item")), "signature")
+  })
+
+  it("refuses a transaction above the per-transaction limit", async () => {
+    const signer = new PolicySigner(fakeSigner(), { maxCostPerTx: { USDC: 50 } }, "testnet")
+    await assert.rejects(signer.signTransaction("", context("51")), rule("maxCostPerTx"))
+    assert.equal(await signer.signTransaction("", context("50")), "signature")
+  })
+
+  it("refuses a limited token whose cost is not a number", async () => {
+    const signer = new PolicySigner(fakeSigner(), { maxCostPerTx: { USDC: 50 } }, "testnet")
+    await assert.rejects(signer.signTransaction("", context("lots")), rule("maxCostPerTx"))
+  })
+
+  it("does not let concurrent signatures overspend the daily budget", async () => {
+    const signer = new PolicySigner(fakeSigner({ delayMs: 10 }), { dailyBudget: { USDC: 100 } }, "testnet")
+    const results = await Promise.allSettled([
+      signer.signTransaction("", context("80")),
+      signer.signTransaction("", context("80")),
+    ])
+
+    assert.deepEqual(results.map((result) => result.status), ["fulfilled", "rejected"])
+    assert.ok(rule("dailyBudget")((results[1] as PromiseRejectedResult).reason))
+    assert.deepEqual(signer.getDailySpend(), { USDC: 80 })
+  })
+
+  it("releases the reservation when signing fails", async () => {
+    const signer = new PolicySigner(fakeSigner({ fail: true }), { dailyBudget: { USDC: 100 } }, "testnet")
+    await assert.rejects(signer.signTransaction("", context("80")), /signing failed/)
+    assert.deepEqual(signer.getDailySpend(), {})
+  })
+
+  it("shares one budget between signers using the same ledger", async () => {
+    const policy: SigningPolicy = { dailyBudget: { USDC: 100 } }
+    const ledger = new SpendLedger()
+    const alice = new PolicySigner(fakeSigner(), policy, "testnet", ledger)
+    const bob = new PolicySigner(fakeSigner(), policy, "testnet", ledger)
+
+    await alice.signTransaction("", context("60"))
+    await assert.rejects(bob.signTransaction("", context("60")), rule("dailyBudget"))
+    assert.equal(await bob.signTransaction("", context("40")), "signature")
+  })
+
+  it("frees spend once it leaves the rolling 24h window", async () => {
+    let now = 0
+    const clock = () => now
+    const signer = new PolicySigner(fakeSigner(), { dailyBudget: { USDC: 100 } }, "testnet", new SpendLedger(clock), clock)
+
+    await signer.signTransaction("", context("100"))
+    now = DAY_MS - 1
+    await assert.rejects(signer.signTransaction("", context("1")), rule("dailyBudget"))
+    now = DAY_MS
+    assert.equal(await signer.signTransaction("", context("1")), "signature")
+  })
+})
+
+describe("SpendLedger.fromJournal", () => {
+  const dirs: string[] = []
+  after(async () => {
+    for (const dir of dirs) await rm(dir, { recursive: true, force: true })
+  })
+
+  it("replays signed transactions from the last 24h on the same network", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "fortem-policy-"))
+    dirs.push(dir)
+    const path = join(dir, "audit.jsonl")
+
+    const entry = (txId: string, cost: string) => ({ tool: "buy_item", txId, cost, costTokenSymbol: "USDC", gasBudget: 1000 })
+    const testnet = new AuditJournal(path, "testnet")
+    await testnet.record({ event: "prepared", ...entry("signed", "30") })
+    await testnet.record({ event: "signed", ...entry("signed", "30") })
+    await testnet.record({ event: "prepared", ...entry("never-signed", "50") })
+    await new AuditJournal(path, "mainnet").record({ event: "signed", ...entry("mainnet", "70") })
+
+    const ledger = await SpendLedger.fromJournal(path, "testnet")
+    assert.deepEqual(ledger.totals(), { USDC: 30 })
+
+    const tomorrow = await SpendLedger.fromJournal(path, "testnet", () => Date.now() + DAY_MS)
+    assert.deepEqual(tomorrow.totals(), {})
+  })
+
+  it("starts empty without a journal", async () => {
+    const ledger = await SpendLedger.fromJournal(join(tmpdir(), "fortem-missing", "audit.jsonl"), "testnet")
+    assert.deepEqual(ledger.totals(), {})
+  })
+})
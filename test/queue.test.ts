@@ -0,0 +1,28 @@
+import { strict as assert } from "node:assert"
+import { describe, it } from "node:test"
+import { queueProgress, TransactionQueue, type ToolExtra } from "../src/queue.js"
+
+function fakeExtra(sent: number[]): ToolExtra {
+  return {
+    _meta: { progressToken: "token" },
+    sendNotification: async (notification: { params: { progress: number } }) => {
+      sent.push(notification.params.progress)
+    },
+  } as unknown as ToolExtra
+}
+
+describe("queueProgress", () => {
+  it("keeps progress increasing when one tool call queues several transactions", async () => {
+    const sent: number[] = []
+    const extra = fakeExtra(sent)
+    const queue = new TransactionQueue()
+
+    for (let i = 0; i < 3; i++) await queue.run(async () => {}, queueProgress(extra))
+
+    assert.deepEqual(sent, [1, 2, 3])
+  })
+
+  it("reports nothing without a progressToken", () => {
+    assert.equal(queueProgress({ _meta: {} } as unknown as ToolExtra), undefined)
+  })
+})
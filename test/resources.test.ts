@@ -0,0 +1,58 @@
+import { strict as assert } from "node:assert"
+import { describe, it } from "node:test"
+import { setTimeout as sleep } from "node:timers/promises"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { AccountRegistry, type Account } from "../src/account.js"
+import { registerResources } from "../src/resources.js"
+
+describe("resource subscriptions", () => {
+  it("stop polling the API once the session's server closes", async () => {
+    process.env.FORTEM_RESOURCE_REFRESH_MS = "10"
+    let reads = 0
+    const account = { client: { get: async () => ({ nickname: `read ${++reads}` }) } } as unknown as Account
+
+    const server = new McpServer({ name: "test", version: "0" })
+    registerResources(server, new AccountRegistry(new Map([["default", account]])))
+    const client = new Client({ name: "test", version: "0" })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+
+    await client.subscribeResource({ uri: "fortem://profile" })
+    await sleep(50)
+    assert.ok(reads > 1, "subscribed resources are re-read while the session is open")
+
+    await server.close()
+    const readsAtClose = reads
+    await sleep(50)
+    assert.equal(reads, readsAtClose)
+  })
+
+  it("stop downloading an item image that passes the size limit", async () => {
+    const realFetch = globalThis.fetch
+    let cancelled = false
+    const body = new ReadableStream<Uint8Array>({
+      pull: (controller) => controller.enqueue(new Uint8Array(1024 * 1024)),
+      cancel: () => {
+        cancelled = true
+      },
+    })
+    globalThis.fetch = async () => new Response(body)
+    const account = { client: { get: async () => ({ itemImage: "https://images.example/a.png" }) } } as unknown as Account
+
+    const server = new McpServer({ name: "test", version: "0" })
+    registerResources(server, new AccountRegistry(new Map([["default", account]])))
+    const client = new Client({ name: "test", version: "0" })
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+
+    try {
+      await assert.rejects(client.readResource({ uri: "fortem://items/1/image" }), /over 10 MB/)
+      assert.ok(cancelled)
+    } finally {
+      globalThis.fetch = realFetch
+      await server.close()
+    }
+  })
+})
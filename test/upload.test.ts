@@ -0,0 +1,77 @@
+import { strict as assert } from "node:assert"
+import dns from "node:dns"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { after, afterEach, before, describe, it } from "node:test"
+import type { FortemClient } from "../src/client.js"
+import { ToolError } from "../src/errors.js"
+import { readLimited, uploadImage } from "../src/upload.js"
+
+// Never reached: every case fails while loading the image
+const client = {} as FortemClient
+const realLookup = dns.lookup
+
+function refused(err: unknown) {
+  return err instanceof ToolError && err.code === "VALIDATION_ERROR" && /not a public address/.test(err.message)
+}
+
+describe("image URL downloads", () => {
+  // Stands in for an internal service; no refused URL may reach it
+  let server: Server
+  let port: number
+  let hits = 0
+
+  before(async () => {
+    server = createServer((_req, res) => {
+      hits++
+      res.writeHead(302, { location: "/a.png" }).end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  after(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  afterEach(() => {
+    dns.lookup = realLookup
+  })
+
+  for (const host of ["127.0.0.1", "localhost", "169.254.169.254", "10.1.2.3", "[::1]", "[::ffff:127.0.0.1]", "[fd00::1]"]) {
+    it(`refuse ${host}`, async () => {
+      await assert.rejects(uploadImage(client, { url: `http://${host}:${port}/a.png` }, "item"), refused)
+      assert.equal(hits, 0)
+    })
+  }
+
+  it("check the address the connection actually uses", async () => {
+    // A rebinding host: whatever answered before, at connect time it points inside
+    dns.lookup = ((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+      callback(null, [{ address: "127.0.0.1", family: 4 }])) as unknown as typeof dns.lookup
+    await assert.rejects(uploadImage(client, { url: `http://images.example:${port}/a.png` }, "item"), refused)
+    assert.equal(hits, 0)
+  })
+
+  it("stop reading a body without Content-Length once it passes the limit", async () => {
+    let pulled = 0
+    let cancelled = false
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++
+        controller.enqueue(new Uint8Array(1024 * 1024))
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+
+    await assert.rejects(
+      readLimited(body, "collection_logo"),
+      (err: unknown) => err instanceof ToolError && /over 2 MB/.test(err.message)
+    )
+    assert.ok(cancelled)
+    assert.ok(pulled <= 4)
+  })
+})
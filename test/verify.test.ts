@@ -0,0 +1,183 @@
+import { strict as assert } from "node:assert"
+import { describe, it } from "node:test"
+import { Transaction } from "@mysten/sui/transactions"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import type { SigningContext } from "../src/signer.js"
+import { findVerificationProblems, VerifyingSigner, TransactionVerificationError } from "../src/verify.js"
+
+const WALLET = normalizeSuiAddress("0xa11ce")
+const ATTACKER = normalizeSuiAddress("0xbad")
+const FORTEM = normalizeSuiAddress("0xf0")
+const EVIL = normalizeSuiAddress("0xcdcd")
+const GAS_BUDGET = 50_000_000
+
+const objectRef = (id: string) => ({ objectId: normalizeSuiAddress(id), version: "1", digest: "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi" })
+
+// Builds bytes offline: every input is a literal or a full object reference
+async function build(commands: (tx: Transaction) => void): Promise<string> {
+  const tx = new Transaction()
+  tx.setSender(WALLET)
+  tx.setGasBudget(GAS_BUDGET)
+  tx.setGasPrice(1000)
+  tx.setGasPayment([objectRef("0x9a5")])
+  commands(tx)
+  return Buffer.from(await tx.build()).toString("base64")
+}
+
+function context(tool: string, recipients?: string[]): SigningContext {
+  return {
+    tool,
+    prepared: { txId: "tx-1", txBytes: "", cost: "0", costTokenSymbol: "SUI", gasBudget: GAS_BUDGET },
+    recipients,
+  }
+}
+
+// A plausible mint: one Fortem call whose result goes back to the wallet
+function mint(tx: Transaction): void {
+  const [item] = tx.moveCall({ target: `${FORTEM}::item::mint`, arguments: [tx.objectRef(objectRef("0xc0")), tx.pure.string("Summer Pass")] })
+  tx.transferObjects([item], tx.pure.address(WALLET))
+}
+
+describe("findVerificationProblems", () => {
+  it("accepts a Fortem mint that sends the item to the wallet", async () => {
+    const bytes = await build(mint)
+    assert.deepEqual(findVerificationProblems(bytes, context("mint_item"), WALLET, [FORTEM]), [])
+  })
+
+  it("refuses Fortem calls when no Fortem packages are configured", async () => {
+    const bytes = await build(mint)
+    const problems = findVerificationProblems(bytes, context("mint_item"), WALLET, [])
+    assert.equal(problems.length, 1)
+    assert.match(problems[0], /FORTEM_MOVE_PACKAGES is not set/)
+  })
+
+  it("accepts any non-framework package only when explicitly opted in", async () => {
+    const bytes = await build(mint)
+    assert.deepEqual(findVerificationProblems(bytes, context("mint_item"), WALLET, "any"), [])
+  })
+
+  it("refuses a package that is not one of the pinned Fortem packages", async () => {
+    const bytes = await build((tx) => {
+      mint(tx)
+      tx.moveCall({ target: `${EVIL}::evil::noop`, arguments: [] })
+    })
+    const problems = findVerificationProblems(bytes, context("mint_item"), WALLET, [FORTEM])
+    assert.equal(problems.length, 1)
+    assert.match(problems[0], /0x0+cdcd::evil::noop, which is not allowed for mint_item/)
+  })
+
+  it("refuses splitting the gas coin and sending it away with 0x2::transfer::public_transfer", async () => {
+    const bytes = await build((tx) => {
+      mint(tx)
+      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(1_000_000_000)])
+      tx.moveCall({
+        target: "0x2::transfer::public_transfer",
+        typeArguments: ["0x2::coin::Coin<0x2::sui::SUI>"],
+        arguments: [coin, tx.pure.address(ATTACKER)],
+      })
+    })
+    const problems = findVerificationProblems(bytes, context("mint_item"), WALLET, [FORTEM])
+    assert.equal(problems.length, 1)
+    assert.match(problems[0], new RegExp(`transfers objects to ${ATTACKER}`))
+  })
+
+  it("accepts 0x2::transfer::public_transfer to the wallet itself", async () => {
+    const bytes = await build((tx) => {
+      const [item] = tx.moveCall({ target: `${FORTEM}::item::mint`, arguments: [] })
+      tx.moveCall({
+        target: "0x2::transfer::public_transfer",
+        typeArguments: [`${FORTEM}::item::Item`],
+        arguments: [item, tx.pure.address(WALLET)],
+      })
+    })
+    assert.deepEqual(findVerificationProblems(bytes, context("mint_item"), WALLET, [FORTEM]), [])
+  })
+
+  it("refuses passing the gas coin to a non-framework call, even a pinned one", async () => {
+    const bytes = await build((tx) => {
+      mint(tx)
+      tx.moveCall({ target: `${FORTEM}::item::pay`, arguments: [tx.gas] })
+    })
+    const problems = findVerificationProblems(bytes, context("mint_item"), WALLET, [FORTEM])
+    assert.equal(problems.length, 1)
+    assert.match(problems[0], /passes the gas coin to/)
+  })
+
+  it("reports every hole in the offline drain transaction", async () => {
+    const bytes = await build((tx) => {
+      mint(tx)
+      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(1_000_000_000)])
+      tx.moveCall({
+        target: "0x2::transfer::public_transfer",
+        typeArguments: ["0x2::coin::Coin<0x2::sui::SUI>"],
+        arguments: [coin, tx.pure.address(ATTACKER)],
+      })
+      tx.moveCall({ target: `${EVIL}::evil::drain`, arguments: [tx.gas] })
+    })
+    const problems = findVerificationProblems(bytes, context("mint_item"), WALLET, [FORTEM])
+    assert.ok(problems.some((problem) => problem.includes(`transfers objects to ${ATTACKER}`)))
+    assert.ok(problems.some((problem) => problem.includes("passes the gas coin to")))
+    assert.ok(problems.some((problem) => problem.includes("evil::drain, which is not allowed")))
+  })
+
+  it("refuses TransferObjects whose recipient is computed rather than a literal address", async () => {
+    const bytes = await build((tx) => {
+      const [item] = tx.moveCall({ target: `${FORTEM}::item::mint`, arguments: [] })
+      const [recipient] = tx.moveCall({ target: `${FORTEM}::item::recipient`, arguments: [] })
+      tx.transferObjects([item], recipient)
+    })
+    const problems = findVerificationProblems(bytes, context("mint_item"), WALLET, [FORTEM])
+    assert.equal(problems.length, 1)
+    assert.match(problems[0], /TransferObjects\) sends objects to an address that is not a literal input/)
+  })
+
+  it("accepts a transfer to the requested recipient only", async () => {
+    const friend = normalizeSuiAddress("0xf12e4d")
+    const bytes = await build((tx) => {
+      tx.transferObjects([tx.objectRef(objectRef("0x17e3"))], tx.pure.address(friend))
+    })
+    assert.deepEqual(findVerificationProblems(bytes, context("transfer_item", [friend]), WALLET, [FORTEM]), [])
+    assert.match(findVerificationProblems(bytes, context("transfer_item"), WALLET, [FORTEM])[0], /transfers objects to/)
+  })
+
+  it("refuses another sender and a gas budget the API did not advertise", async () => {
+    const bytes = await build((tx) => tx.moveCall({ target: `${FORTEM}::item::mint`, arguments: [] }))
+    const problems = findVerificationProblems(
+      bytes,
+      { ...context("mint_item"), prepared: { ...context("mint_item").prepared, gasBudget: 1 } },
+      ATTACKER,
+      [FORTEM]
+    )
+    assert.equal(problems.length, 2)
+    assert.match(problems[0], /sender is/)
+    assert.match(problems[1], /gas budget is/)
+  })
+
+  it("refuses tools without an allowlist and bytes that do not decode", async () => {
+    const bytes = await build(mint)
+    assert.match(findVerificationProblems(bytes, context("unknown_tool"), WALLET, [FORTEM])[0], /no Move target allowlist/)
+    assert.match(findVerificationProblems("not a transaction", context("mint_item"), WALLET, [FORTEM])[0], /could not be decoded/)
+  })
+})
+
+describe("VerifyingSigner", () => {
+  it("never reaches the inner signer when verification fails", async () => {
+    let signed = false
+    const signer = new VerifyingSigner(
+      {
+        getAddress: () => WALLET,
+        signTransaction: async () => {
+          signed = true
+          return "signature"
+        },
+        signPersonalMessage: async () => ({ bytes: "", signature: "" }),
+      },
+      [FORTEM]
+    )
+
+    const bytes = await build((tx) => tx.moveCall({ target: `${EVIL}::evil::drain`, arguments: [tx.gas] }))
+    await assert.rejects(signer.signTransaction(bytes, context("mint_item")), TransactionVerificationError)
+    assert.equal(signed, false)
+    assert.equal(await signer.signTransaction(await build(mint), context("mint_item")), "signature")
+  })
+})